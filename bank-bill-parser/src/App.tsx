@@ -1,31 +1,101 @@
 import { useEffect, useMemo, useState } from 'react'
 import './App.css'
-import { detectRecurring, guessColumnMap, parseCsvFiles, type ColumnMap, type RecurringGroup, type Tx } from './lib'
+import {
+  filterRecurring,
+  guessColumnMap,
+  hasAmountColumns,
+  inspectCsvLocales,
+  isSplitLayout,
+  rankGroups,
+  type ColumnMap,
+  type CsvFileLocale,
+  type CsvFilePlan,
+  type ExpenseSign,
+  type RecurringGroup,
+  type Tx,
+} from './lib'
+import { dedupeTransactions, type DedupReport } from './dedup'
+import { markTransfers, suggestedTransferPairs, transferPairs, type TransferPair } from './transfers'
+import { DEFAULT_REFUND_WINDOW_DAYS, netAmount, pairRefunds, refundPairs } from './refunds'
+import { hashFile, type ImportRecord } from './imports'
+import { isCancelled, progressLabel, startPipeline, type PipelineJob, type PipelineProgress } from './pipeline'
+import { appendImports, clearHistory, deleteImport, loadHistory, saveGroups, setImportAccount } from './db'
+import { ACCOUNT_TYPE_LABELS, accountName, accountTypes, guessAccount, newAccountId, type Account, type AccountType } from './accounts'
+import { isOfxFile } from './ofx'
+import { isPdfFile, pdfRowsToTxs, readPdfStatements, type PdfRow } from './pdf'
+import { DELIMITERS, sniffCsv, type CsvSettings, type CsvSniff } from './csv'
+import type { DateOrder, DecimalMark } from './locale'
+import {
+  allProfiles,
+  BUILTIN_PROFILES,
+  headerSignature,
+  matchProfile,
+  newProfileId,
+  profilePlan,
+  resolveColumnMap,
+  sameHeaders,
+  type ImportProfile,
+} from './profiles'
+import { budgetFor, carryInto, loadBudgets, monthKey, previousPlan, updateMonth, type Budgets, type MonthBudget } from './budgets'
+import { merchantResolver, newRuleId, rekeyByRules, ruleError, type MerchantRule, type RuleMatch } from './rules'
+import { actualsByMonth, categorizer, newCategoryRuleId, streamResolver, type Categorized, type CategoryRule, type CategorySource } from './categorize'
+import { anchorLabel, CADENCE_LABELS, monthlyEquivalent, ordinal } from './cadence'
+import { expectedDates, scheduleRange, SHIFT_LABELS, type ShiftRule } from './schedule'
+import { ALERT_LABELS, chargeAlerts, latestDates, type ChargeAlert } from './alerts'
+import { DEFAULT_PAY_SCHEDULE, PAY_CADENCE_LABELS, payPeriods, type PayCadence, type PaySchedule } from './payPeriods'
+import { balanceCorrection, contribution, FUND_STATUS_LABELS, sinkingFunds, type Contribution, type SinkingFund } from './sinkingFunds'
 import { supabase } from './supabase'
-import { DEFAULT_CATEGORIES, type Category } from './categories'
-import { addMonths, format, getDay, getDaysInMonth, startOfMonth } from 'date-fns'
+import {
+  categoryColor,
+  categoryPath,
+  FALLBACK_CATEGORY,
+  loadCategories,
+  moveCategory,
+  newCategoryId,
+  orderedCategories,
+  SAVINGS_CATEGORY,
+  SUBSCRIPTIONS_CATEGORY,
+  type Category,
+} from './categories'
+import { addDays, addMonths, endOfMonth, format, getDay, getDaysInMonth, parse, startOfDay, startOfMonth } from 'date-fns'
 
-type Stage = 'upload' | 'map' | 'results'
+type Stage = 'upload' | 'accounts' | 'pdf' | 'map' | 'results'
 
-type Decision = 'bill' | 'subscription' | 'no' | 'unset'
+type AmountLayout = 'single' | 'split'
 
-type DecisionsMap = Record<string, Decision>
+// a CSV file as sniffed, with the saved profile that matched its header row
+type CsvMatch = { sniff: CsvSniff; profile?: ImportProfile }
 
-type CategoryMap = Record<string, Category>
+const EMPTY_MAP: ColumnMap = { date: '', description: '', amount: '' }
 
-type Tab = 'review' | 'calendar' | 'bills' | 'subs' | 'plan' | 'upload'
+const DELIMITER_LABELS: Record<string, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab', '|': 'Pipe' }
 
-type BudgetState = {
-  income: number
-  plannedByCategory: Record<string, number>
-}
+const DATE_ORDER_LABELS: Record<DateOrder, string> = { MDY: 'M/D/Y', DMY: 'D/M/Y', YMD: 'Y-M-D' }
+
+type Decision = 'bill' | 'subscription' | 'income' | 'no' | 'unset'
+
+type DecisionsMap = Record<string, Decision>
+
+type CategoryMap = Record<string, string> // merchant key -> category id
+
+type Tab = 'review' | 'calendar' | 'bills' | 'subs' | 'plan' | 'pay' | 'txs' | 'upload'
 
 const GATE_PASSWORD = import.meta.env.VITE_GATE_PASSWORD as string | undefined
 const LS_KEY = 'bbp_authed_v1'
 const LS_DECISIONS = 'bbp_decisions_v1'
 const LS_CATEGORIES = 'bbp_categories_v1'
 const LS_TAB = 'bbp_tab_v1'
-const LS_BUDGET = 'bbp_budget_v1'
+const LS_BUDGET = 'bbp_budget_v1' // single plan saved before budgets were per month
+const LS_BUDGETS = 'bbp_budgets_v1'
+const LS_PROFILES = 'bbp_profiles_v1'
+const LS_RULES = 'bbp_rules_v1'
+const LS_SHIFT = 'bbp_shift_v1'
+const LS_ACCOUNTS = 'bbp_accounts_v1'
+const LS_REFUND_WINDOW = 'bbp_refund_window_v1'
+const LS_CATEGORY_TREE = 'bbp_category_tree_v1'
+const LS_CATEGORY_RULES = 'bbp_category_rules_v1'
+const LS_SINKING_FUNDS = 'bbp_sinking_funds_v1'
+const LS_PAY_SCHEDULE = 'bbp_pay_schedule_v1'
 
 export default function App() {
   const [authed, setAuthed] = useState(() => {
@@ -53,6 +123,19 @@ export default function App() {
     }
   })
 
+  const [categories, setCategories] = useState<Category[]>(() => {
+    try {
+      return loadCategories(JSON.parse(localStorage.getItem(LS_CATEGORY_TREE) ?? 'null'))
+    } catch {
+      return loadCategories(null)
+    }
+  })
+
+  function saveCategories(next: Category[]) {
+    setCategories(next)
+    localStorage.setItem(LS_CATEGORY_TREE, JSON.stringify(next))
+  }
+
   const [categoryMap, setCategoryMap] = useState<CategoryMap>(() => {
     try {
       return JSON.parse(localStorage.getItem(LS_CATEGORIES) ?? '{}') as CategoryMap
@@ -61,26 +144,146 @@ export default function App() {
     }
   })
 
-  const [budget, setBudget] = useState<BudgetState>(() => {
+  const [budgets, setBudgets] = useState<Budgets>(() => {
+    try {
+      const saved = localStorage.getItem(LS_BUDGETS) ?? localStorage.getItem(LS_BUDGET)
+      return loadBudgets(JSON.parse(saved ?? 'null'), new Date())
+    } catch {
+      return loadBudgets(null, new Date())
+    }
+  })
+  useEffect(() => {
+    localStorage.setItem(LS_BUDGETS, JSON.stringify(budgets))
+  }, [budgets])
+
+  // merchant key -> money put aside for that charge
+  const [fundContributions, setFundContributions] = useState<Record<string, Contribution[]>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(LS_SINKING_FUNDS) ?? '{}') as Record<string, Contribution[]>
+    } catch {
+      return {}
+    }
+  })
+
+  function saveFundContributions(next: Record<string, Contribution[]>) {
+    setFundContributions(next)
+    localStorage.setItem(LS_SINKING_FUNDS, JSON.stringify(next))
+  }
+
+  function addContribution(key: string, c: Contribution) {
+    if (!c.amount) return
+    saveFundContributions({ ...fundContributions, [key]: [...(fundContributions[key] ?? []), c] })
+  }
+
+  const [paySchedule, setPaySchedule] = useState<PaySchedule>(() => {
+    try {
+      return (JSON.parse(localStorage.getItem(LS_PAY_SCHEDULE) ?? 'null') as PaySchedule | null) ?? DEFAULT_PAY_SCHEDULE
+    } catch {
+      return DEFAULT_PAY_SCHEDULE
+    }
+  })
+
+  function savePaySchedule(next: PaySchedule) {
+    setPaySchedule(next)
+    localStorage.setItem(LS_PAY_SCHEDULE, JSON.stringify(next))
+  }
+
+  const [userProfiles, setUserProfiles] = useState<ImportProfile[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(LS_PROFILES) ?? '[]') as ImportProfile[]
+    } catch {
+      return []
+    }
+  })
+  const profiles = useMemo(() => allProfiles(userProfiles), [userProfiles])
+
+  function saveProfiles(next: ImportProfile[]) {
+    setUserProfiles(next)
+    localStorage.setItem(LS_PROFILES, JSON.stringify(next))
+  }
+
+  // A saved profile is updated where it is, keeping its match priority. A new
+  // one goes first; editing a built-in saves a user copy under the same id,
+  // after your own profiles like the built-in it replaces.
+  function upsertProfile(p: ImportProfile) {
+    const saved = { ...p, builtIn: undefined }
+    if (userProfiles.some((x) => x.id === p.id)) saveProfiles(userProfiles.map((x) => (x.id === p.id ? saved : x)))
+    else if (BUILTIN_PROFILES.some((b) => b.id === p.id)) saveProfiles([...userProfiles, saved])
+    else saveProfiles([saved, ...userProfiles])
+  }
+
+  function deleteProfile(id: string) {
+    saveProfiles(userProfiles.filter((x) => x.id !== id))
+  }
+
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(LS_CATEGORY_RULES) ?? '[]') as CategoryRule[]
+    } catch {
+      return []
+    }
+  })
+
+  function saveCategoryRules(next: CategoryRule[]) {
+    setCategoryRules(next)
+    localStorage.setItem(LS_CATEGORY_RULES, JSON.stringify(next))
+  }
+
+  const [rules, setRules] = useState<MerchantRule[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(LS_RULES) ?? '[]') as MerchantRule[]
+    } catch {
+      return []
+    }
+  })
+
+  const [accounts, setAccounts] = useState<Account[]>(() => {
     try {
-      const b = JSON.parse(localStorage.getItem(LS_BUDGET) ?? 'null') as BudgetState | null
-      if (b && typeof b.income === 'number' && b.plannedByCategory) return b
-    } catch {}
-    const plannedByCategory: Record<string, number> = {}
-    for (const c of DEFAULT_CATEGORIES) plannedByCategory[c] = 0
-    return { income: 0, plannedByCategory }
+      return JSON.parse(localStorage.getItem(LS_ACCOUNTS) ?? '[]') as Account[]
+    } catch {
+      return []
+    }
   })
+  const accountsById = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts])
+  // '' = all accounts; shared by the Bills, Subscriptions and Calendar tabs
+  const [accountFilter, setAccountFilter] = useState('')
+
+  function saveAccounts(next: Account[]) {
+    setAccounts(next)
+    if (accountFilter && !next.some((a) => a.id === accountFilter)) setAccountFilter('')
+    localStorage.setItem(LS_ACCOUNTS, JSON.stringify(next))
+  }
+
+  // an account's type decides which unnamed matches are transfers, so a
+  // changed type re-runs detection
+  async function editAccounts(next: Account[]) {
+    saveAccounts(next)
+    const retyped = next.some((a) => accounts.some((b) => b.id === a.id && b.type !== a.type))
+    if (retyped && importedTxs.length > 0) await runPipeline({ type: 'analyze', txs: importedTxs, rules, refundWindow, accountTypes: accountTypes(next) }, false)
+  }
+
+  const [refundWindow, setRefundWindow] = useState(() => Number(localStorage.getItem(LS_REFUND_WINDOW)) || DEFAULT_REFUND_WINDOW_DAYS)
+
+  const [shiftRule, setShiftRule] = useState<ShiftRule>(() => (localStorage.getItem(LS_SHIFT) as ShiftRule) || 'none')
+  useEffect(() => {
+    localStorage.setItem(LS_SHIFT, shiftRule)
+  }, [shiftRule])
 
+  // budget edits apply to the month shown in the header
   function setIncome(n: number) {
-    const next = { ...budget, income: n }
-    setBudget(next)
-    localStorage.setItem(LS_BUDGET, JSON.stringify(next))
+    setBudgets((b) => updateMonth(b, monthKey(month), (m) => ({ ...m, income: n })))
   }
 
   function setPlanned(cat: string, n: number) {
-    const next = { ...budget, plannedByCategory: { ...budget.plannedByCategory, [cat]: n } }
-    setBudget(next)
-    localStorage.setItem(LS_BUDGET, JSON.stringify(next))
+    setBudgets((b) => updateMonth(b, monthKey(month), (m) => ({ ...m, plannedByCategory: { ...m.plannedByCategory, [cat]: n } })))
+  }
+
+  function copyPlanFrom(key: string) {
+    setBudgets((b) => updateMonth(b, monthKey(month), (m) => ({ ...m, plannedByCategory: { ...budgetFor(b, key).plannedByCategory } })))
+  }
+
+  function setRollover(cat: string, on: boolean) {
+    setBudgets((b) => ({ ...b, rollover: { ...b.rollover, [cat]: on } }))
   }
 
   function setDecision(key: string, d: Decision) {
@@ -89,7 +292,7 @@ export default function App() {
     localStorage.setItem(LS_DECISIONS, JSON.stringify(next))
   }
 
-  function setCategory(key: string, cat: Category) {
+  function setCategory(key: string, cat: string) {
     const next = { ...categoryMap, [key]: cat }
     setCategoryMap(next)
     localStorage.setItem(LS_CATEGORIES, JSON.stringify(next))
@@ -101,19 +304,102 @@ export default function App() {
 
   const [stage, setStage] = useState<Stage>('upload')
   const [files, setFiles] = useState<File[]>([])
+  const [ofxFiles, setOfxFiles] = useState<File[]>([])
+  const [pdfFiles, setPdfFiles] = useState<File[]>([])
+  const [pdfRows, setPdfRows] = useState<PdfRow[]>([])
+  const [pdfTxs, setPdfTxs] = useState<Tx[]>([])
+  const [pdfBusy, setPdfBusy] = useState(false)
+  // account per chosen file, in csv, ofx, pdf order (names can repeat)
+  const [fileAccounts, setFileAccounts] = useState<string[]>([])
   const [month, setMonth] = useState<Date>(() => startOfMonth(new Date()))
   const [headers, setHeaders] = useState<string[]>([])
   const [columnMap, setColumnMap] = useState<ColumnMap | null>(null)
-  const [expenseSign, setExpenseSign] = useState<'auto' | 'negative' | 'positive'>('auto')
+  const [amountLayout, setAmountLayout] = useState<AmountLayout>('single')
+  const [expenseSign, setExpenseSign] = useState<ExpenseSign>('auto')
+  const [dateFormat, setDateFormat] = useState('')
+  const [dateOrder, setDateOrder] = useState<DateOrder | ''>('')
+  const [decimalMark, setDecimalMark] = useState<DecimalMark | ''>('')
+  const [fileLocales, setFileLocales] = useState<CsvFileLocale[]>([])
+  const [csvSniff, setCsvSniff] = useState<CsvSniff | null>(null)
+  const [csvMatches, setCsvMatches] = useState<CsvMatch[]>([])
+  const [mapIndex, setMapIndex] = useState(0) // the CSV file shown on the map stage
+  const [profileId, setProfileId] = useState('')
+  const [profileName, setProfileName] = useState('')
+  const [accountLabel, setAccountLabel] = useState('')
+
+  function updateMap(patch: Partial<ColumnMap>) {
+    setColumnMap((m) => ({ ...(m ?? EMPTY_MAP), ...patch }))
+  }
+
+  function changeAmountLayout(layout: AmountLayout) {
+    setAmountLayout(layout)
+    if (layout === 'single') updateMap({ debit: undefined, credit: undefined })
+    else updateMap({ amount: '', type: undefined })
+  }
 
+  // every row of every import, before duplicates across uploads are merged
+  const [importedTxs, setImportedTxs] = useState<Tx[]>([])
+  const [imports, setImports] = useState<ImportRecord[]>([])
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([])
+  const [historyLoaded, setHistoryLoaded] = useState(false)
   const [txs, setTxs] = useState<Tx[]>([])
-  const [groups, setGroups] = useState<RecurringGroup[]>([])
+  const [dedupReport, setDedupReport] = useState<DedupReport | null>(null)
+  // every candidate with 2+ charges; the minimum-occurrences filter is applied on top
+  const [allGroups, setAllGroups] = useState<RecurringGroup[]>([])
+  const [progress, setProgress] = useState<PipelineProgress | null>(null)
+  const [cancelJob, setCancelJob] = useState<(() => void) | null>(null)
+
+  // pick up where the last visit left off; stored groups are reused as-is
+  useEffect(() => {
+    loadHistory().then(
+      (h) => {
+        if (h.imports.length > 0) {
+          const { txs: parsed, report } = dedupeTransactions(h.txs)
+          setImports(h.imports)
+          setImportedTxs(h.txs)
+          setTxs(parsed)
+          setDedupReport(report)
+          setAllGroups(h.groups)
+          setStage('results')
+        }
+        setHistoryLoaded(true)
+      },
+      (e) => {
+        alert(`Could not open saved history: ${e instanceof Error ? e.message : String(e)}`)
+        setHistoryLoaded(true)
+      },
+    )
+  }, [])
 
   const [userEmail, setUserEmail] = useState<string>('')
   const [authStatus, setAuthStatus] = useState<'disabled' | 'signedout' | 'signedin'>('disabled')
   const [minCount, setMinCount] = useState(3)
   const [query, setQuery] = useState('')
 
+  const groups = useMemo(() => filterRecurring(allGroups, { minCount }), [allGroups, minCount])
+  // transfers and refunds are marked by the worker too; this covers history
+  // loaded on startup and a changed refund window
+  const merchantOf = useMemo(() => merchantResolver(rules), [rules])
+  const typesById = useMemo(() => accountTypes(accounts), [accounts])
+  const ledger = useMemo(
+    () => pairRefunds(markTransfers(txs, { accountTypes: typesById }), { windowDays: refundWindow, merchantOf }),
+    [txs, typesById, refundWindow, merchantOf],
+  )
+
+  const categoryOf = useMemo(
+    () =>
+      categorizer({ assignments: categoryMap, rules: categoryRules, merchantOf, streamOf: streamResolver(allGroups), fallback: FALLBACK_CATEGORY }),
+    [categoryMap, categoryRules, merchantOf, allGroups],
+  )
+  const monthlyActuals = useMemo(() => actualsByMonth(ledger, categoryOf), [ledger, categoryOf])
+  const budgetKey = monthKey(month)
+  const budget = budgetFor(budgets, budgetKey)
+  const actuals = useMemo(() => monthlyActuals.get(budgetKey) ?? new Map<string, number>(), [monthlyActuals, budgetKey])
+  const carry = useMemo(() => carryInto(budgets, budgetKey, monthlyActuals), [budgets, budgetKey, monthlyActuals])
+  const lastPlan = previousPlan(budgets, budgetKey)
+  const transfers = useMemo(() => transferPairs(ledger), [ledger])
+  const suggestedTransfers = useMemo(() => suggestedTransferPairs(ledger), [ledger])
+
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase()
     if (!q) return groups
@@ -122,43 +408,368 @@ export default function App() {
 
   const decidedGroups = useMemo(() => {
     return filtered.map((g) => {
-      const d = decisions[g.merchantKey] ?? 'unset'
-      const kind = d === 'bill' ? 'bill' : d === 'subscription' ? 'subscription' : d === 'no' ? 'unknown' : g.kind
-      const cat = categoryMap[g.merchantKey]
-      return { ...g, kind, _decision: d, _category: cat }
+      // a stream split off a merchant starts from the merchant's earlier choices
+      const d = decisions[g.merchantKey] ?? (g.parentKey ? decisions[g.parentKey] : undefined) ?? 'unset'
+      const kind = d === 'bill' || d === 'subscription' || d === 'income' ? d : d === 'no' ? 'unknown' : g.kind
+      const cat = categoryMap[g.merchantKey] ?? (g.parentKey ? categoryMap[g.parentKey] : undefined)
+      return { ...g, kind, _decision: d, _category: cat, _account: g.accountId ? accountsById.get(g.accountId) : undefined }
     })
-  }, [filtered, decisions, categoryMap])
-
-  async function readFirstHeaders(file: File) {
-    const text = await file.text()
-    const firstLine = text.split(/\r?\n/)[0] ?? ''
-    // naive csv header split; good enough for mapping UI
-    const cols = firstLine
-      .split(',')
-      .map((s) => s.replace(/^"|"$/g, '').trim())
-      .filter(Boolean)
-    setHeaders(cols)
+  }, [filtered, decisions, categoryMap, accountsById])
+
+  const accountGroups = useMemo(
+    () => (accountFilter ? decidedGroups.filter((g) => g.accountId === accountFilter) : decidedGroups),
+    [decidedGroups, accountFilter],
+  )
+
+  const funds = useMemo(
+    () => sinkingFunds(decidedGroups.filter((g) => g.kind === 'bill' || g.kind === 'subscription'), fundContributions, month),
+    [decidedGroups, fundContributions, month],
+  )
 
-    const guess = guessColumnMap(cols)
+  // alerts are checked as of the newest transaction from each group's account
+  const alerts = useMemo(() => {
+    const latest = latestDates(txs)
+    const forDecision = (d: Decision) => chargeAlerts(accountGroups.filter((g) => g._decision === d), latest)
+    return { bill: forDecision('bill'), subscription: forDecision('subscription') }
+  }, [accountGroups, txs])
+
+  // One upload can mix banks, so every file is matched to a profile on its
+  // own. The map stage shows the first file no profile matched (or the first
+  // file, when all of them matched); other unmatched files use its columns.
+  async function readHeaders(csv: File[]) {
+    const matches = await Promise.all(
+      csv.map(async (file): Promise<CsvMatch> => {
+        const sniff = await sniffCsv(file)
+        const match = matchProfile(sniff.rows.slice(0, 30), profiles)
+        if (!match) return { sniff }
+        if (match.headerRow === sniff.settings.headerRow) return { sniff, profile: match.profile }
+        return { sniff: await sniffCsv(file, { ...sniff.settings, headerRow: match.headerRow }), profile: match.profile }
+      }),
+    )
+    const shown = Math.max(0, matches.findIndex((m) => !m.profile))
+    setCsvMatches(matches)
+    setMapIndex(shown)
+
+    const { sniff, profile } = matches[shown]
+    setCsvSniff(sniff)
+    if (profile) return applyProfile(profile, sniff.headers)
+
+    setHeaders(sniff.headers)
+    setProfileId('')
+    setProfileName('')
+    setAccountLabel('')
+    setExpenseSign('auto')
+    setDateFormat('')
+    setDateOrder('')
+    setDecimalMark('')
+
+    const guess = guessColumnMap(sniff.headers)
     setColumnMap(guess)
+    setAmountLayout(guess && isSplitLayout(guess) ? 'split' : 'single')
+  }
+
+  function applyProfile(p: ImportProfile, cols: string[]) {
+    const map = resolveColumnMap(p.columnMap, cols)
+    setHeaders(cols)
+    setColumnMap(map)
+    setAmountLayout(isSplitLayout(map) ? 'split' : 'single')
+    setExpenseSign(p.expenseSign)
+    setDateFormat(p.dateFormat)
+    setDateOrder(p.dateOrder ?? '')
+    setDecimalMark(p.decimalMark ?? '')
+    setProfileId(p.id)
+    setProfileName(p.name)
+    setAccountLabel(p.account)
+  }
+
+  // re-read the shown file with changed delimiter/encoding/header row; the
+  // column choices are kept where the header names still exist
+  async function resniff(overrides: Partial<CsvSettings>) {
+    if (!files[mapIndex] || !csvSniff) return
+    const sniff = await sniffCsv(files[mapIndex], { ...csvSniff.settings, ...overrides })
+    setCsvSniff(sniff)
+    setHeaders(sniff.headers)
+    if (columnMap) setColumnMap(resolveColumnMap(columnMap, sniff.headers))
+  }
+
+  async function chooseProfile(id: string) {
+    const p = profiles.find((x) => x.id === id)
+    if (!p || !files[mapIndex] || !csvSniff) return setProfileId('')
+    const sniff = await sniffCsv(files[mapIndex], { ...csvSniff.settings, headerRow: p.skipRows })
+    setCsvSniff(sniff)
+    applyProfile(p, sniff.headers)
+  }
+
+  function saveCurrentProfile(asNew: boolean) {
+    if (!columnMap) return
+    const existing = profiles.find((p) => p.id === profileId)
+    const id = asNew || !existing ? newProfileId() : existing.id
+    setProfileId(id)
+    upsertProfile({
+      id,
+      name: profileName.trim() || accountLabel.trim() || 'My bank',
+      account: accountLabel.trim(),
+      headers: headerSignature(headers),
+      columnMap,
+      expenseSign,
+      dateFormat: dateFormat.trim(),
+      skipRows: Math.max(0, csvSniff?.settings.headerRow ?? 0),
+      dateOrder: dateOrder || undefined,
+      decimalMark: decimalMark || undefined,
+    })
   }
 
   async function onChooseFiles(list: FileList | null) {
     if (!list || list.length === 0) return
-    const arr = Array.from(list).filter((f) => f.name.toLowerCase().endsWith('.csv'))
-    setFiles(arr)
-    if (arr[0]) await readFirstHeaders(arr[0])
+
+    // a file whose bytes were already imported (or picked twice) is skipped
+    const seen = new Set(imports.map((r) => r.hash))
+    const all: File[] = []
+    const skipped: string[] = []
+    for (const f of Array.from(list)) {
+      const hash = await hashFile(f)
+      if (seen.has(hash)) skipped.push(f.name)
+      else all.push(f)
+      seen.add(hash)
+    }
+    setSkippedFiles(skipped)
+    if (all.length === 0) return
+
+    const csv = all.filter((f) => f.name.toLowerCase().endsWith('.csv'))
+    const ofx = all.filter(isOfxFile)
+    const pdf = all.filter(isPdfFile)
+    setFiles(csv)
+    setOfxFiles(ofx)
+    setPdfFiles(pdf)
+    setPdfTxs([])
+    setFileAccounts([...csv, ...ofx, ...pdf].map((f) => guessAccount(f.name, accounts)))
+    setStage('accounts')
+  }
+
+  async function confirmAccounts() {
+    // PDF rows are a best-effort extraction, so they get a review step first
+    if (pdfFiles.length > 0) {
+      setPdfBusy(true)
+      setStage('pdf')
+      try {
+        setPdfRows(await readPdfStatements(pdfFiles))
+      } catch (e) {
+        alert(`Could not read PDF: ${e instanceof Error ? e.message : String(e)}`)
+        setPdfRows([])
+      } finally {
+        setPdfBusy(false)
+      }
+      return
+    }
+
+    await afterPreview(files, ofxFiles, [])
+  }
+
+  async function afterPreview(csv: File[], ofx: File[], fromPdf: Tx[]) {
+    // OFX/QFX (and reviewed PDF) fields are already known, so they skip column mapping
+    if (csv.length === 0) {
+      if (ofx.length > 0 || fromPdf.length > 0) await run(ofx, [], fromPdf)
+      else resetUpload()
+      return
+    }
+    await readHeaders(csv)
     setStage('map')
   }
 
-  async function run() {
-    if (!columnMap) return
-    const parsed = await parseCsvFiles(files, columnMap, { expenseSign })
-    setTxs(parsed)
-    const recurring = detectRecurring(parsed, { minCount })
-    setGroups(recurring)
-    setStage('results')
-    setTab('review')
+  // How each CSV file is read: the shown file with the map stage's choices,
+  // a file a profile matched by that profile, and any other file with the
+  // shown file's columns and its own sniffed delimiter/encoding/header row
+  const csvPlans = useMemo((): CsvFilePlan[] | null => {
+    if (!columnMap) return null
+    const chosen = { map: columnMap, expenseSign, dateFormat, dateOrder: dateOrder || undefined, decimalMark: decimalMark || undefined }
+    return files.map((_, i) => {
+      const m = csvMatches[i]
+      if (i === mapIndex) return { ...chosen, csv: csvSniff?.settings, profile: profileId ? profileName : undefined }
+      return m?.profile ? profilePlan(m.profile, m.sniff.headers, m.sniff.settings) : chosen
+    })
+  }, [files, csvMatches, mapIndex, columnMap, expenseSign, dateFormat, dateOrder, decimalMark, csvSniff, profileId, profileName])
+
+  // unmatched files whose header row differs from the shown file's
+  const mismatchedFiles = files.filter((_, i) => i !== mapIndex && !csvMatches[i]?.profile && csvMatches[i] && !sameHeaders(csvMatches[i].sniff.headers, headers))
+
+  // re-inspect every file's dates/amounts whenever the mapping changes, so
+  // ambiguous files can be flagged before parsing
+  useEffect(() => {
+    if (stage !== 'map' || !csvPlans || !columnMap?.date || !hasAmountColumns(columnMap) || files.length === 0) return
+    let cancelled = false
+    inspectCsvLocales(files, csvPlans).then(
+      (res) => !cancelled && setFileLocales(res),
+      () => !cancelled && setFileLocales([]),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [stage, files, columnMap, csvPlans])
+
+  const localeAmbiguous = fileLocales.some(
+    (l, i) => (l.dateAmbiguous && !csvPlans?.[i]?.dateOrder && !csvPlans?.[i]?.dateFormat) || (l.decimalAmbiguous && !csvPlans?.[i]?.decimalMark),
+  )
+
+  async function confirmPdf() {
+    const fromPdf = pdfRowsToTxs(pdfRows)
+    setPdfTxs(fromPdf)
+    await afterPreview(files, ofxFiles, fromPdf)
+  }
+
+  async function run(ofx = ofxFiles, csv = files, fromPdf = pdfTxs) {
+    if (csv.length > 0 && !csvPlans) return
+    const res = await runPipeline(
+      {
+        type: 'import',
+        csv,
+        ofx,
+        pdf: pdfFiles,
+        pdfTxs: fromPdf,
+        csvPlans: csvPlans ?? [],
+        accounts: fileAccounts,
+        history: importedTxs,
+        rules,
+        refundWindow,
+        accountTypes: typesById,
+      },
+      true,
+    )
+    if (!res) return
+    setImports([...imports, ...res.records])
+    setImportedTxs([...importedTxs, ...res.added])
+    persist(appendImports(res.records, res.added))
+    clearPending()
+  }
+
+  // Run a worker job. Groups are shown, ranked, as detection finds them; on
+  // cancel or failure the previous results are put back and null is returned.
+  async function runPipeline(job: PipelineJob, showReview: boolean) {
+    const before = { stage, groups: allGroups }
+    const streamed: RecurringGroup[] = []
+    const { result, cancel } = startPipeline(job, {
+      progress: setProgress,
+      groups: (chunk) => {
+        if (streamed.length === 0) {
+          setStage('results')
+          if (showReview) setTab('review')
+        }
+        streamed.push(...chunk)
+        setAllGroups(rankGroups(streamed))
+      },
+    })
+    setCancelJob(() => cancel)
+
+    try {
+      const res = await result
+      setTxs(res.txs)
+      setDedupReport(res.report)
+      persist(saveGroups(rankGroups(streamed)))
+      return res
+    } catch (e) {
+      setAllGroups(before.groups)
+      setStage(before.stage)
+      if (!isCancelled(e)) alert(`Import failed: ${e instanceof Error ? e.message : String(e)}`)
+      return null
+    } finally {
+      setCancelJob(null)
+      setProgress(null)
+    }
+  }
+
+  function persist(p: Promise<void>) {
+    p.catch((e) => alert(`Could not save history in this browser: ${e instanceof Error ? e.message : String(e)}`))
+  }
+
+  // roll back one upload: drop its rows and re-run detection on the rest
+  async function removeImport(id: string) {
+    const rec = imports.find((r) => r.id === id)
+    if (!rec || !confirm(`Remove ${rec.rowCount} transactions imported from ${rec.fileName}?`)) return
+    const rest = imports.filter((r) => r.id !== id)
+    const remaining = importedTxs.filter((t) => t.importId !== id)
+    if (rest.length === 0) {
+      clearResults()
+      persist(clearHistory())
+      return
+    }
+
+    const res = await runPipeline({ type: 'analyze', txs: remaining, rules, refundWindow, accountTypes: typesById }, false)
+    if (!res) return
+    setImports(rest)
+    setImportedTxs(remaining)
+    persist(deleteImport(id))
+  }
+
+  // move an earlier upload to another account and re-run detection
+  async function changeImportAccount(id: string, accountId: string) {
+    const acct = accountId || undefined
+    const nextTxs = importedTxs.map((t) => (t.importId === id ? { ...t, accountId: acct } : t))
+    const res = await runPipeline({ type: 'analyze', txs: nextTxs, rules, refundWindow, accountTypes: typesById }, false)
+    if (!res) return
+    setImports(imports.map((r) => (r.id === id ? { ...r, accountId: acct } : r)))
+    setImportedTxs(nextTxs)
+    persist(setImportAccount(id, acct))
+  }
+
+  // Rules change group keys: decisions and categories follow the descriptions
+  // to their new groups, then detection re-runs over the stored rows.
+  async function saveRules(next: MerchantRule[]) {
+    const nextDecisions = rekeyByRules(decisions, importedTxs, rules, next)
+    const nextCategories = rekeyByRules(categoryMap, importedTxs, rules, next)
+    const nextFunds = rekeyByRules(fundContributions, importedTxs, rules, next)
+    setDecisions(nextDecisions)
+    localStorage.setItem(LS_DECISIONS, JSON.stringify(nextDecisions))
+    setCategoryMap(nextCategories)
+    localStorage.setItem(LS_CATEGORIES, JSON.stringify(nextCategories))
+    saveFundContributions(nextFunds)
+    await applyRules(next)
+  }
+
+  // rules as they are, e.g. loaded along with the decisions keyed by them
+  async function applyRules(next: MerchantRule[], types = typesById) {
+    setRules(next)
+    localStorage.setItem(LS_RULES, JSON.stringify(next))
+    if (importedTxs.length > 0) await runPipeline({ type: 'analyze', txs: importedTxs, rules: next, refundWindow, accountTypes: types }, false)
+  }
+
+  // a different window pairs different refunds, so detection re-runs
+  async function saveRefundWindow(days: number) {
+    setRefundWindow(days)
+    localStorage.setItem(LS_REFUND_WINDOW, String(days))
+    if (importedTxs.length > 0) await runPipeline({ type: 'analyze', txs: importedTxs, rules, refundWindow: days, accountTypes: typesById }, false)
+  }
+
+  function clearResults() {
+    setImports([])
+    setImportedTxs([])
+    setTxs([])
+    setDedupReport(null)
+    setAllGroups([])
+    setStage('upload')
+  }
+
+  function forgetHistory() {
+    if (!confirm('Delete all imported transactions from this browser? Decisions, categories and the budget are kept.')) return
+    clearResults()
+    persist(clearHistory())
+  }
+
+  function clearPending() {
+    setFiles([])
+    setOfxFiles([])
+    setPdfFiles([])
+    setPdfRows([])
+    setPdfTxs([])
+    setFileAccounts([])
+    setHeaders([])
+    setColumnMap(null)
+    setCsvSniff(null)
+    setCsvMatches([])
+    setMapIndex(0)
+  }
+
+  function resetUpload() {
+    clearPending()
+    setStage(imports.length > 0 ? 'results' : 'upload')
   }
 
   function downloadCsv() {
@@ -209,7 +820,14 @@ export default function App() {
     const payload = {
       decisions,
       categories: categoryMap,
-      budget,
+      categoryTree: categories,
+      budgets,
+      profiles: userProfiles,
+      rules,
+      categoryRules,
+      accounts,
+      sinkingFunds: fundContributions,
+      paySchedule,
       updatedAt: new Date().toISOString(),
     }
 
@@ -232,14 +850,20 @@ export default function App() {
       setDecisions(p.decisions)
       localStorage.setItem(LS_DECISIONS, JSON.stringify(p.decisions))
     }
+    if (Array.isArray(p.categoryTree)) saveCategories(loadCategories(p.categoryTree))
     if (p.categories) {
       setCategoryMap(p.categories)
       localStorage.setItem(LS_CATEGORIES, JSON.stringify(p.categories))
     }
-    if (p.budget) {
-      setBudget(p.budget)
-      localStorage.setItem(LS_BUDGET, JSON.stringify(p.budget))
-    }
+    // payloads saved before per-month budgets carry a single `budget`
+    if (p.budgets || p.budget) setBudgets(loadBudgets(p.budgets ?? p.budget, new Date()))
+    if (Array.isArray(p.profiles)) saveProfiles(p.profiles)
+    if (Array.isArray(p.accounts)) saveAccounts(p.accounts)
+    if (Array.isArray(p.categoryRules)) saveCategoryRules(p.categoryRules)
+    if (p.sinkingFunds) saveFundContributions(p.sinkingFunds)
+    if (p.paySchedule) savePaySchedule(p.paySchedule)
+    // the loaded decisions and categories are already keyed by the loaded rules
+    if (Array.isArray(p.rules)) await applyRules(p.rules, Array.isArray(p.accounts) ? accountTypes(p.accounts) : typesById)
     alert('Loaded from cloud.')
   }
 
@@ -288,6 +912,8 @@ export default function App() {
               { id: 'bills', label: 'Bills' },
               { id: 'subs', label: 'Subscriptions' },
               { id: 'plan', label: 'Plan' },
+              { id: 'pay', label: 'Pay periods' },
+              { id: 'txs', label: 'Transactions' },
               { id: 'upload', label: 'Upload' },
             ] as const
           ).map((t) => (
@@ -331,6 +957,8 @@ export default function App() {
               { id: 'bills', label: 'Bills' },
               { id: 'subs', label: 'Subscriptions' },
               { id: 'plan', label: 'Plan' },
+              { id: 'pay', label: 'Pay periods' },
+              { id: 'txs', label: 'Transactions' },
               { id: 'upload', label: 'Upload' },
             ] as const
           ).map((t) => (
@@ -389,64 +1017,262 @@ export default function App() {
         </div>
       </section>
 
-      {stage === 'upload' && tab === 'upload' && (
+      {cancelJob && (
+        <section className="card progressCard">
+          <div className="row" style={{ justifyContent: 'space-between' }}>
+            <span className="small">{progress ? progressLabel(progress) : 'Reading files…'}</span>
+            <button className="btn secondary" type="button" onClick={cancelJob}>
+              Cancel
+            </button>
+          </div>
+          {progress && <progress max={progress.total} value={progress.done} />}
+        </section>
+      )}
+
+      {(stage === 'upload' || stage === 'results') && tab === 'upload' && (
+        <section className="card">
+          <h2>Upload statements (CSV, OFX/QFX, PDF)</h2>
+          <p>Upload 1–3 months of U.S. Bank CSV exports, or OFX/QFX downloads from any bank or card issuer. PDF statements are read in your browser and shown for review first.</p>
+          <input
+            type="file"
+            accept=".csv,text/csv,.ofx,.qfx,.pdf,application/pdf"
+            multiple
+            disabled={!historyLoaded || cancelJob !== null}
+            onChange={(e) => {
+              void onChooseFiles(e.target.files)
+              e.target.value = ''
+            }}
+          />
+          {skippedFiles.length > 0 && <p className="small">Already imported, skipped: {skippedFiles.join(', ')}</p>}
+
+          {imports.length > 0 && (
+            <details style={{ marginTop: 14 }} open>
+              <summary>Import history ({imports.length})</summary>
+              <ImportHistory
+                imports={imports}
+                accounts={accounts}
+                disabled={cancelJob !== null}
+                onAccount={(id, accountId) => void changeImportAccount(id, accountId)}
+                onRemove={(id) => void removeImport(id)}
+              />
+              <button className="btn secondary" type="button" style={{ marginTop: 8 }} onClick={forgetHistory}>
+                Clear all history
+              </button>
+            </details>
+          )}
+
+          <details style={{ marginTop: 14 }}>
+            <summary>Accounts ({accounts.length})</summary>
+            <AccountsEditor accounts={accounts} imports={imports} onChange={(next) => void editAccounts(next)} />
+          </details>
+
+          <details style={{ marginTop: 14 }}>
+            <summary>Merchant rules ({rules.length})</summary>
+            <RulesEditor rules={rules} disabled={cancelJob !== null} onChange={(next) => void saveRules(next)} />
+          </details>
+
+          <details style={{ marginTop: 14 }}>
+            <summary>Import profiles ({profiles.length})</summary>
+            <ProfilesEditor profiles={profiles} userProfiles={userProfiles} onSave={upsertProfile} onDelete={deleteProfile} />
+          </details>
+        </section>
+      )}
+
+      {stage === 'accounts' && tab === 'upload' && (
+        <section className="card">
+          <h2>Which account is each file from?</h2>
+          <p className="small">Bills and subscriptions show the account they're drawn from, and the Bills, Subscriptions and Calendar tabs can be filtered by account.</p>
+          <div className="importList">
+            {[...files, ...ofxFiles, ...pdfFiles].map((f, i) => (
+              <div key={i} className="importRow">
+                <b>{f.name}</b>
+                <select value={fileAccounts[i] ?? ''} onChange={(e) => setFileAccounts(fileAccounts.map((id, j) => (j === i ? e.target.value : id)))}>
+                  <option value="">No account</option>
+                  {accounts.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {accountName(a)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <details style={{ marginTop: 14 }} open={accounts.length === 0}>
+            <summary>Accounts ({accounts.length})</summary>
+            <AccountsEditor accounts={accounts} imports={imports} onChange={(next) => void editAccounts(next)} />
+          </details>
+          <div className="row" style={{ marginTop: 12 }}>
+            <button className="btn" onClick={() => void confirmAccounts()}>
+              Continue
+            </button>
+            <button className="btn secondary" onClick={resetUpload}>
+              Start over
+            </button>
+          </div>
+        </section>
+      )}
+
+      {stage === 'pdf' && tab === 'upload' && (
         <section className="card">
-          <h2>Upload statements (CSV)</h2>
-          <p>Upload 1–3 months of U.S. Bank CSV exports.</p>
-          <input type="file" accept=".csv,text/csv" multiple onChange={(e) => void onChooseFiles(e.target.files)} />
+          <h2>Review PDF transactions</h2>
+          {pdfBusy ? (
+            <p className="small">Reading PDF…</p>
+          ) : (
+            <PdfReview rows={pdfRows} onChange={setPdfRows} />
+          )}
+          <div className="row" style={{ marginTop: 12 }}>
+            <button className="btn" disabled={pdfBusy || !pdfRows.some((r) => r.include)} onClick={() => void confirmPdf()}>
+              Use these rows
+            </button>
+            <button className="btn secondary" onClick={resetUpload}>
+              Start over
+            </button>
+          </div>
         </section>
       )}
 
       {stage === 'map' && tab === 'upload' && (
         <section className="card">
           <h2>2) Map columns</h2>
+          {files.length > 1 && (
+            <div className="small">
+              <div>
+                Mapping <b>{files[mapIndex]?.name}</b>
+                {files.some((_, i) => i !== mapIndex && !csvMatches[i]?.profile) && ' (and the other files no profile matched)'}
+              </div>
+              {files.map(
+                (f, i) =>
+                  i !== mapIndex &&
+                  csvMatches[i]?.profile && (
+                    <div key={i} className="meta">
+                      {f.name}: read with its own profile, <b>{csvMatches[i].profile.name}</b>
+                    </div>
+                  ),
+              )}
+            </div>
+          )}
+          {mismatchedFiles.length > 0 && (
+            <div className="localeList warn">
+              <div className="meta">
+                <b>{mismatchedFiles.map((f) => f.name).join(', ')}</b>: different columns from {files[mapIndex]?.name} and no matching profile, so
+                these rows may not parse. Import them separately and save a profile for their bank.
+              </div>
+            </div>
+          )}
           <div className="grid">
             <label>
-              Date column
-              <select value={columnMap?.date ?? ''} onChange={(e) => setColumnMap((m) => ({ ...(m ?? ({} as any)), date: e.target.value }))}>
-                <option value="">—</option>
-                {headers.map((h) => (
-                  <option key={h} value={h}>
-                    {h}
+              Import profile
+              <select value={profileId} onChange={(e) => void chooseProfile(e.target.value)}>
+                <option value="">None (map manually)</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.builtIn ? ' (built-in)' : ''}
                   </option>
                 ))}
               </select>
+              {profileId && <span className="meta">Matched by header row — check the columns below.</span>}
+            </label>
+
+            <label>
+              Account label
+              <input value={accountLabel} placeholder="e.g. Joint checking" onChange={(e) => setAccountLabel(e.target.value)} />
+            </label>
+
+            <label>
+              Date order
+              <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder | '')}>
+                <option value="">Auto-detect per file</option>
+                <option value="MDY">Month/Day/Year (01/31/2026)</option>
+                <option value="DMY">Day/Month/Year (31.01.2026)</option>
+                <option value="YMD">Year-Month-Day (2026-01-31)</option>
+              </select>
+            </label>
+
+            <label>
+              Decimal mark
+              <select value={decimalMark} onChange={(e) => setDecimalMark(e.target.value as DecimalMark | '')}>
+                <option value="">Auto-detect per file</option>
+                <option value=".">1,234.56</option>
+                <option value=",">1.234,56</option>
+              </select>
             </label>
 
             <label>
-              Description column
-              <select
-                value={columnMap?.description ?? ''}
-                onChange={(e) => setColumnMap((m) => ({ ...(m ?? ({} as any)), description: e.target.value }))}
-              >
-                <option value="">—</option>
-                {headers.map((h) => (
-                  <option key={h} value={h}>
-                    {h}
+              Header row
+              <select value={csvSniff?.settings.headerRow ?? 0} onChange={(e) => void resniff({ headerRow: Number(e.target.value) })}>
+                <option value={-1}>No header row</option>
+                {(csvSniff?.rows ?? []).slice(0, 30).map((r, i) => (
+                  <option key={i} value={i}>
+                    Row {i + 1}: {r.join(' | ').slice(0, 60)}
                   </option>
                 ))}
               </select>
             </label>
 
             <label>
-              Amount column
-              <select value={columnMap?.amount ?? ''} onChange={(e) => setColumnMap((m) => ({ ...(m ?? ({} as any)), amount: e.target.value }))}>
-                <option value="">—</option>
-                {headers.map((h) => (
-                  <option key={h} value={h}>
-                    {h}
+              Delimiter
+              <select value={csvSniff?.settings.delimiter ?? ','} onChange={(e) => void resniff({ delimiter: e.target.value, headerRow: undefined })}>
+                {DELIMITERS.map((d) => (
+                  <option key={d} value={d}>
+                    {DELIMITER_LABELS[d]}
                   </option>
                 ))}
               </select>
             </label>
 
+            <label>
+              Encoding
+              <select value={csvSniff?.settings.encoding ?? 'utf-8'} onChange={(e) => void resniff({ encoding: e.target.value })}>
+                <option value="utf-8">UTF-8{csvSniff?.hasBom && csvSniff.settings.encoding === 'utf-8' ? ' (BOM)' : ''}</option>
+                <option value="utf-16le">UTF-16 LE</option>
+                <option value="utf-16be">UTF-16 BE</option>
+                <option value="windows-1252">Windows-1252</option>
+              </select>
+            </label>
+
+            <label>
+              Date format
+              <input value={dateFormat} placeholder="Auto-detect (e.g. MM/dd/yyyy)" onChange={(e) => setDateFormat(e.target.value)} />
+            </label>
+
+            <HeaderSelect label="Date column" headers={headers} value={columnMap?.date} onChange={(v) => updateMap({ date: v })} />
+            <HeaderSelect label="Description column" headers={headers} value={columnMap?.description} onChange={(v) => updateMap({ description: v })} />
+
+            <label>
+              Amount layout
+              <select value={amountLayout} onChange={(e) => changeAmountLayout(e.target.value as AmountLayout)}>
+                <option value="single">One signed amount column</option>
+                <option value="split">Separate debit / credit columns</option>
+              </select>
+            </label>
+
+            {amountLayout === 'single' ? (
+              <>
+                <HeaderSelect label="Amount column" headers={headers} value={columnMap?.amount} onChange={(v) => updateMap({ amount: v })} />
+                <HeaderSelect
+                  label="Type column (DR/CR, optional)"
+                  headers={headers}
+                  value={columnMap?.type}
+                  onChange={(v) => updateMap({ type: v || undefined })}
+                />
+              </>
+            ) : (
+              <>
+                <HeaderSelect label="Debit / withdrawals column" headers={headers} value={columnMap?.debit} onChange={(v) => updateMap({ debit: v || undefined })} />
+                <HeaderSelect label="Credit / deposits column" headers={headers} value={columnMap?.credit} onChange={(v) => updateMap({ credit: v || undefined })} />
+              </>
+            )}
+
             <label>
               Expense sign
-              <select value={expenseSign} onChange={(e) => setExpenseSign(e.target.value as any)}>
+              <select value={expenseSign} disabled={amountLayout === 'split'} onChange={(e) => setExpenseSign(e.target.value as ExpenseSign)}>
                 <option value="auto">Auto-detect</option>
                 <option value="negative">Expenses are negative</option>
                 <option value="positive">Expenses are positive</option>
               </select>
+              {amountLayout === 'split' && <span className="meta">Not needed: debit/credit columns give the direction.</span>}
+              {amountLayout === 'single' && columnMap?.type && <span className="meta">Only used for rows without a DR/CR type.</span>}
             </label>
 
             <label>
@@ -456,21 +1282,58 @@ export default function App() {
           </div>
 
           <div className="row">
-            <button className="btn" disabled={!columnMap?.date || !columnMap?.description || !columnMap?.amount || files.length === 0} onClick={() => void run()}>
+            <button className="btn" disabled={!columnMap?.date || !columnMap?.description || !hasAmountColumns(columnMap) || files.length === 0 || cancelJob !== null} onClick={() => void run()}>
               Parse & detect recurring
             </button>
-            <button className="btn secondary" onClick={() => (setStage('upload'), setFiles([]), setHeaders([]), setColumnMap(null))}>
+            <button className="btn secondary" onClick={resetUpload}>
               Start over
             </button>
           </div>
 
+          {csvSniff && <CsvPreview headers={headers} rows={csvSniff.preview} map={columnMap} />}
+
+          {fileLocales.length > 0 && (
+            <div className={`localeList ${localeAmbiguous ? 'warn' : ''}`}>
+              {fileLocales.map((l) => (
+                <div key={l.file} className="meta">
+                  <b>{l.file}</b>: dates {DATE_ORDER_LABELS[l.dateOrder]}
+                  {l.dateAmbiguous && ' (ambiguous)'} • amounts {l.decimalMark === ',' ? '1.234,56' : '1,234.56'}
+                  {l.decimalAmbiguous && ' (ambiguous)'}
+                </div>
+              ))}
+              {localeAmbiguous && (
+                <div className="meta">
+                  Some values could be read either way (e.g. 03/04/2026 or 1.234). Pick a date order / decimal mark above to confirm.
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="row" style={{ marginTop: 12 }}>
+            <input placeholder="Profile name" value={profileName} onChange={(e) => setProfileName(e.target.value)} />
+            <button className="btn secondary" type="button" disabled={!columnMap || !profileId} onClick={() => saveCurrentProfile(false)}>
+              Update profile
+            </button>
+            <button className="btn secondary" type="button" disabled={!columnMap} onClick={() => saveCurrentProfile(true)}>
+              Save as new profile
+            </button>
+          </div>
+
           <div className="small">
             <div>
               Files: <b>{files.length}</b>
+              {ofxFiles.length > 0 && <> (+{ofxFiles.length} OFX/QFX)</>}
+              {pdfTxs.length > 0 && <> (+{pdfTxs.length} PDF rows)</>}
             </div>
             <div>
               Headers detected: <b>{headers.length}</b>
             </div>
+            {csvSniff && (
+              <div>
+                Detected: <b>{DELIMITER_LABELS[csvSniff.settings.delimiter]}</b>-delimited, <b>{csvSniff.settings.encoding}</b>
+                {csvSniff.hasBom ? ' with BOM' : ''}, {csvSniff.settings.headerRow < 0 ? <b>no header row</b> : <>header on row <b>{csvSniff.settings.headerRow + 1}</b></>}
+              </div>
+            )}
           </div>
         </section>
       )}
@@ -482,11 +1345,47 @@ export default function App() {
               <h2>3) Results</h2>
               <div className="small">
                 Parsed <b>{txs.length}</b> transactions • Found <b>{groups.length}</b> recurring candidates
+                {dedupReport && dedupReport.merged > 0 && (
+                  <>
+                    {' '}
+                    • Merged <b>{dedupReport.merged}</b> duplicate rows
+                  </>
+                )}
+                {transfers.length > 0 && (
+                  <>
+                    {' '}
+                    • Set aside <b>{transfers.length}</b> transfers between accounts
+                  </>
+                )}
               </div>
+              {dedupReport && dedupReport.byFile.length > 0 && (
+                <details className="small">
+                  <summary>Duplicates merged</summary>
+                  <div>
+                    {dedupReport.byFile.map((m) => (
+                      <div key={`${m.file}\n${m.duplicateOf}`}>
+                        <b>{m.count}</b> rows in {m.file} were already in {m.duplicateOf}
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
+              {transfers.length > 0 && (
+                <details className="small">
+                  <summary>Transfers and card payments</summary>
+                  <TransferList pairs={transfers} />
+                </details>
+              )}
+              {suggestedTransfers.length > 0 && (
+                <details className="small">
+                  <summary>Possible transfers (still counted)</summary>
+                  <TransferList pairs={suggestedTransfers} />
+                </details>
+              )}
             </div>
             <div className="row">
-              <button className="btn secondary" onClick={() => setStage('map')}>
-                Back
+              <button className="btn secondary" onClick={() => setTab('upload')}>
+                Add files
               </button>
               <button className="btn" onClick={downloadCsv} disabled={filtered.length === 0}>
                 Export CSV
@@ -506,6 +1405,13 @@ export default function App() {
 
           {tab === 'review' && (
             <div className="section">
+              <details className="section">
+                <summary>
+                  Price changes ({groups.reduce((n, g) => n + (g.priceChanges ?? []).filter((c) => c.to > c.from).length, 0)})
+                </summary>
+                <PriceChanges groups={groups} />
+              </details>
+
               <h3>Needs review</h3>
               <div className="cards">
                 {decidedGroups
@@ -517,8 +1423,10 @@ export default function App() {
                       g={g}
                       decision={g._decision}
                       category={g._category}
+                      account={g._account}
                       onDecision={setDecision}
                       onCategory={setCategory}
+                      categories={categories}
                     />
                   ))}
                 {decidedGroups.filter((g: any) => g._decision === 'unset').length === 0 && <div className="empty">Nothing to review.</div>}
@@ -528,19 +1436,36 @@ export default function App() {
 
           {tab === 'calendar' && (
             <div className="section">
-              <h3>Upcoming (next 14 days)</h3>
-              <UpcomingCombined groups={decidedGroups as any} />
+              <div className="row" style={{ justifyContent: 'space-between' }}>
+                <h3>Upcoming (next 14 days)</h3>
+                <AccountFilter accounts={accounts} value={accountFilter} onChange={setAccountFilter} />
+                <label className="small">
+                  Due on a weekend or bank holiday:{' '}
+                  <select value={shiftRule} onChange={(e) => setShiftRule(e.target.value as ShiftRule)}>
+                    {(Object.keys(SHIFT_LABELS) as ShiftRule[]).map((r) => (
+                      <option key={r} value={r}>
+                        {SHIFT_LABELS[r]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <UpcomingCombined groups={accountGroups as any} shift={shiftRule} />
 
               <h3 style={{ marginTop: 16 }}>Monthly calendar</h3>
-              <BillsCalendar month={month} groups={decidedGroups as any} />
+              <BillsCalendar month={month} groups={accountGroups as any} shift={shiftRule} />
             </div>
           )}
 
           {tab === 'bills' && (
             <div className="section">
-              <h3>Bills</h3>
+              <div className="row" style={{ justifyContent: 'space-between' }}>
+                <h3>Bills</h3>
+                <AccountFilter accounts={accounts} value={accountFilter} onChange={setAccountFilter} />
+              </div>
+              <AlertList alerts={alerts.bill} />
               <div className="cards" style={{ marginTop: 12 }}>
-                {decidedGroups
+                {accountGroups
                   .filter((g: any) => g.kind === 'bill')
                   .map((g: any) => (
                     <RecurringCard
@@ -548,20 +1473,26 @@ export default function App() {
                       g={g}
                       decision={g._decision}
                       category={g._category}
+                      account={g._account}
                       onDecision={setDecision}
                       onCategory={setCategory}
+                      categories={categories}
                     />
                   ))}
-                {decidedGroups.filter((g: any) => g.kind === 'bill').length === 0 && <div className="empty">No bill items yet.</div>}
+                {accountGroups.filter((g: any) => g.kind === 'bill').length === 0 && <div className="empty">No bill items yet.</div>}
               </div>
             </div>
           )}
 
           {tab === 'subs' && (
             <div className="section">
-              <h3>Subscriptions</h3>
+              <div className="row" style={{ justifyContent: 'space-between' }}>
+                <h3>Subscriptions</h3>
+                <AccountFilter accounts={accounts} value={accountFilter} onChange={setAccountFilter} />
+              </div>
+              <AlertList alerts={alerts.subscription} />
               <div className="cards">
-                {decidedGroups
+                {accountGroups
                   .filter((g: any) => g.kind === 'subscription')
                   .sort((a: any, b: any) => b.typicalAmount - a.typicalAmount)
                   .map((g: any) => (
@@ -570,29 +1501,100 @@ export default function App() {
                       g={g}
                       decision={g._decision}
                       category={g._category}
+                      account={g._account}
                       onDecision={setDecision}
                       onCategory={setCategory}
+                      categories={categories}
                     />
                   ))}
-                {decidedGroups.filter((g: any) => g.kind === 'subscription').length === 0 && (
+                {accountGroups.filter((g: any) => g.kind === 'subscription').length === 0 && (
                   <div className="empty">No subscription items yet.</div>
                 )}
               </div>
             </div>
           )}
 
-          {tab === 'plan' && (
+          {tab === 'pay' && (
             <div className="section">
-              <h3>Monthly plan (zero-based)</h3>
-              <BudgetBuilder budget={budget} onIncome={setIncome} onPlanned={setPlanned} groups={decidedGroups as any} />
+              <h3>Pay periods</h3>
+              <PayPeriodsView schedule={paySchedule} onSchedule={savePaySchedule} groups={decidedGroups} month={month} shift={shiftRule} />
             </div>
           )}
 
-          {tab === 'upload' && (
+          {tab === 'txs' && (
             <div className="section">
-              <h3>Other recurring (lower confidence)</h3>
-              <div className="cards">
-                {decidedGroups
+              <TransactionsView
+                categories={categories}
+                categoryOf={categoryOf}
+                txs={ledger}
+                month={month}
+                accountsById={accountsById}
+                refundWindow={refundWindow}
+                disabled={cancelJob !== null}
+                onRefundWindow={(days) => void saveRefundWindow(days)}
+              />
+            </div>
+          )}
+
+          {tab === 'plan' && (
+            <div className="section">
+              <h3>Monthly plan (zero-based)</h3>
+              <BudgetBuilder
+                budget={budget}
+                categories={categories}
+                actuals={actuals}
+                carry={carry}
+                rollover={budgets.rollover}
+                onRollover={setRollover}
+                lastPlan={lastPlan}
+                onCopyPlan={copyPlanFrom}
+                onIncome={setIncome}
+                onPlanned={setPlanned}
+                groups={decidedGroups as any}
+                funds={funds}
+                month={month}
+                shift={shiftRule}
+              />
+
+              <h3 style={{ marginTop: 16 }}>Sinking funds</h3>
+              <SinkingFunds funds={funds} contributions={fundContributions} month={month} onContribute={addContribution} />
+
+              <details className="section">
+                <summary>Categories ({categories.filter((c) => !c.archived).length})</summary>
+                <CategoriesEditor categories={categories} onChange={saveCategories} />
+              </details>
+
+              <details className="section">
+                <summary>Categorization rules ({categoryRules.length})</summary>
+                <CategoryRulesEditor rules={categoryRules} categories={categories} accounts={accounts} onChange={saveCategoryRules} />
+              </details>
+
+              <h3 style={{ marginTop: 16 }}>Income</h3>
+              <div className="cards">
+                {decidedGroups
+                  .filter((g) => g.kind === 'income')
+                  .map((g) => (
+                    <RecurringCard
+                      key={g.merchantKey}
+                      g={g}
+                      decision={g._decision}
+                      category={g._category}
+                      account={g._account}
+                      onDecision={setDecision}
+                      onCategory={setCategory}
+                      categories={categories}
+                    />
+                  ))}
+                {decidedGroups.filter((g) => g.kind === 'income').length === 0 && <div className="empty">No recurring deposits found.</div>}
+              </div>
+            </div>
+          )}
+
+          {tab === 'upload' && (
+            <div className="section">
+              <h3>Other recurring (lower confidence)</h3>
+              <div className="cards">
+                {decidedGroups
                   .filter((g: any) => g.kind === 'unknown')
                   .map((g: any) => (
                     <RecurringCard
@@ -600,8 +1602,10 @@ export default function App() {
                       g={g}
                       decision={g._decision}
                       category={g._category}
+                      account={g._account}
                       onDecision={setDecision}
                       onCategory={setCategory}
+                      categories={categories}
                     />
                   ))}
                 {decidedGroups.filter((g: any) => g.kind === 'unknown').length === 0 && <div className="empty">None.</div>}
@@ -611,7 +1615,7 @@ export default function App() {
         </section>
       )}
 
-      <footer className="footer">CSV is the most reliable. Cloud save requires Supabase configuration.</footer>
+      <footer className="footer">CSV and OFX/QFX are the most reliable; PDF rows are extracted locally and need review. Cloud save requires Supabase configuration.</footer>
 
       <div className="bottomNav">
         {(
@@ -621,6 +1625,8 @@ export default function App() {
             { id: 'bills', label: 'Bills' },
             { id: 'subs', label: 'Subs' },
             { id: 'plan', label: 'Plan' },
+            { id: 'pay', label: 'Paydays' },
+            { id: 'txs', label: 'Transactions' },
             { id: 'upload', label: 'Upload' },
           ] as const
         ).map((t) => (
@@ -648,19 +1654,25 @@ function RecurringCard({
   g,
   decision,
   category,
+  categories,
+  account,
   onDecision,
   onCategory,
 }: {
   g: RecurringGroup
   decision: Decision
-  category?: Category
+  category?: string
+  categories: Category[]
+  account?: Account
   onDecision: (merchantKey: string, d: Decision) => void
-  onCategory: (merchantKey: string, cat: Category) => void
+  onCategory: (merchantKey: string, cat: string) => void
 }) {
-  const label = g.kind === 'bill' ? 'BILL' : g.kind === 'subscription' ? 'SUBSCRIPTION' : 'RECURRING'
-  const due = g.usualDayOfMonth ? `Around the ${ordinal(g.usualDayOfMonth)}` : '—'
+  const label = g.kind === 'bill' ? 'BILL' : g.kind === 'subscription' ? 'SUBSCRIPTION' : g.kind === 'income' ? 'INCOME' : 'RECURRING'
+  const change = g.priceChanges?.[g.priceChanges.length - 1]
+  const due = anchorLabel(g.anchor) ?? (g.usualDayOfMonth ? `Around the ${ordinal(g.usualDayOfMonth)}` : '—')
   const rangeLow = Math.max(0, g.typicalAmount - Math.max(g.amountMad * 2, g.typicalAmount * 0.06))
   const rangeHigh = g.typicalAmount + Math.max(g.amountMad * 2, g.typicalAmount * 0.06)
+  const categoryOptions = orderedCategories(categories)
 
   const pill = (d: Decision, text: string) => (
     <button
@@ -678,32 +1690,51 @@ function RecurringCard({
         <div>
           <div className="merchant">{g.merchant}</div>
           <div className="meta">
-            {label} • {g.cadence}
+            {label} • {CADENCE_LABELS[g.cadence] ?? g.cadence}
             {g.confidence ? ` • ${Math.round(g.confidence * 100)}%` : ''}
           </div>
         </div>
         <div className="amt">${round2(g.typicalAmount)}</div>
       </div>
 
+      {change && (
+        <div
+          className={`priceBadge ${change.to > change.from ? 'up' : 'down'}`}
+          title={`Since ${change.date}: ${change.annualImpact >= 0 ? '+' : '−'}$${round2(Math.abs(change.annualImpact))}/yr${change.confirmed ? '' : ' (one charge so far)'}`}
+        >
+          {change.to > change.from ? '▲' : '▼'} ${round2(change.from)} → ${round2(change.to)}
+        </div>
+      )}
+
       <div className="pills">
-        {pill('bill', 'Yes: Bill')}
-        {pill('subscription', 'Yes: Subscription')}
+        {g.direction === 'in' ? (
+          pill('income', 'Yes: Income')
+        ) : (
+          <>
+            {pill('bill', 'Yes: Bill')}
+            {pill('subscription', 'Yes: Subscription')}
+          </>
+        )}
         {pill('no', 'No')}
         {pill('unset', 'Reset')}
+        {category && <span className="catDot" style={{ background: categoryColor(categories, category) }} />}
         <select
           className="cat"
           value={category ?? ''}
           onChange={(e) => {
-            const v = e.target.value as Category
+            const v = e.target.value
             if (v) onCategory(g.merchantKey, v)
           }}
         >
           <option value="">Category…</option>
-          {DEFAULT_CATEGORIES.map((c) => (
-            <option key={c} value={c}>
-              {c}
+          {categoryOptions.map(({ cat, depth }) => (
+            <option key={cat.id} value={cat.id}>
+              {depth > 0 ? `\u00a0\u00a0${categoryPath(categories, cat.id)}` : cat.name}
             </option>
           ))}
+          {category && !categoryOptions.some(({ cat }) => cat.id === category) && (
+            <option value={category}>{categoryPath(categories, category)} (archived)</option>
+          )}
         </select>
       </div>
 
@@ -716,6 +1747,12 @@ function RecurringCard({
           <div className="k">Amount range</div>
           <div className="v">${round2(rangeLow)} – ${round2(rangeHigh)}</div>
         </div>
+        {account && (
+          <div>
+            <div className="k">{g.direction === 'in' ? 'Paid into' : 'Drawn from'}</div>
+            <div className="v">{accountName(account)}</div>
+          </div>
+        )}
       </div>
 
       <details>
@@ -728,32 +1765,616 @@ function RecurringCard({
   )
 }
 
+function TransferList({ pairs }: { pairs: TransferPair[] }) {
+  return (
+    <div>
+      {pairs.map((p) => (
+        <div key={p.out.transferId ?? p.out.suggestedTransferId}>
+          {format(p.out.date, 'MMM d')} • ${round2(p.out.amount)} • {p.out.description} ({p.out.source}) → {p.in.description} ({p.in.source})
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const REFUND_WINDOWS = [14, 30, 60, 90, 120]
+const TX_PAGE = 300
+
+const CATEGORY_SOURCE_LABELS: Record<CategorySource, string> = { merchant: 'merchant assignment', rule: 'rule', fallback: 'fallback' }
+
+function TransactionsView({
+  txs,
+  categories,
+  categoryOf,
+  month,
+  accountsById,
+  refundWindow,
+  disabled,
+  onRefundWindow,
+}: {
+  txs: Tx[]
+  categories: Category[]
+  categoryOf: (t: Tx) => Categorized | null
+  month: Date
+  accountsById: Map<string, Account>
+  refundWindow: number
+  disabled: boolean
+  onRefundWindow: (days: number) => void
+}) {
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState<Tx | null>(null)
+
+  const refunds = useMemo(() => refundPairs(txs), [txs])
+  // the other side of a refund or transfer, for the detail view
+  const partners = useMemo(() => {
+    const byPair = new Map<string, Tx[]>()
+    for (const t of txs) {
+      for (const id of [t.refundId, t.transferId, t.suggestedTransferId]) {
+        if (id) byPair.set(id, [...(byPair.get(id) ?? []), t])
+      }
+    }
+    return byPair
+  }, [txs])
+  const partnerOf = (t: Tx, id: string | undefined) => (id ? partners.get(id)?.find((x) => x !== t) : undefined)
+
+  const q = query.trim().toLowerCase()
+  const start = startOfMonth(month)
+  const end = endOfMonth(month)
+  const rows = txs
+    .filter((t) => t.date >= start && t.date <= end && (!q || t.description.toLowerCase().includes(q)))
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+  const spent = rows.reduce((sum, t) => sum + Math.max(0, netAmount(t)), 0)
+  const received = rows.reduce((sum, t) => sum + Math.max(0, -netAmount(t)), 0)
+
+  const account = (t: Tx) => {
+    const a = t.accountId ? accountsById.get(t.accountId) : undefined
+    return a ? accountName(a) : t.source ?? ''
+  }
+  const describe = (t: Tx | undefined) => (t ? `${format(t.date, 'MMM d, yyyy')} • $${round2(t.amount)} • ${t.description} (${account(t)})` : '—')
+
+  return (
+    <>
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h3>Transactions</h3>
+        <label className="small">
+          Refunds reverse a charge from the last{' '}
+          <select value={refundWindow} disabled={disabled} onChange={(e) => onRefundWindow(Number(e.target.value))}>
+            {REFUND_WINDOWS.map((d) => (
+              <option key={d} value={d}>
+                {d} days
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="small">
+        {rows.length} in {format(month, 'LLLL yyyy')} • Spent ${round2(spent)} • Received ${round2(received)} (after refunds; transfers left out)
+      </div>
+      <input className="search" placeholder="Filter descriptions…" value={query} onChange={(e) => setQuery(e.target.value)} style={{ marginTop: 10 }} />
+
+      <details className="section">
+        <summary>Refunds paired with their charge ({refunds.length})</summary>
+        {refunds.length === 0 ? (
+          <div className="empty">No refunds found.</div>
+        ) : (
+          <div className="importList">
+            {refunds.map((p) => (
+              <div key={p.refund.refundId} className="txPair">
+                <span className="meta">Charge</span> {describe(p.charge)}
+                <br />
+                <span className="meta">Refund</span> {describe(p.refund)}
+              </div>
+            ))}
+          </div>
+        )}
+      </details>
+
+      <div className="importList" style={{ marginTop: 12 }}>
+        {rows.length === 0 && <div className="empty">No transactions this month.</div>}
+        {rows.slice(0, TX_PAGE).map((t, i) => (
+          <div key={`${t.importId ?? t.source}|${i}`}>
+            <button type="button" className={`txRow ${t.direction}`} onClick={() => setOpen(open === t ? null : t)}>
+              <span className="meta">{format(t.date, 'MMM d')}</span>
+              <span className="calMerchant">{t.description}</span>
+              <span>
+                {categoryOf(t) && netAmount(t) > 0 && (
+                  <span className="catDot" title={categoryPath(categories, categoryOf(t)!.categoryId)} style={{ background: categoryColor(categories, categoryOf(t)!.categoryId) }} />
+                )}
+                {t.transferId && <span className="txBadge">Transfer</span>}
+                {t.suggestedTransferId && <span className="txBadge">Possible transfer</span>}
+                {t.refundId && <span className="txBadge">{t.direction === 'in' ? 'Refund' : t.refunded! < t.amount - 0.005 ? 'Part refunded' : 'Refunded'}</span>}
+              </span>
+              <span className="calAmt">
+                {t.direction === 'in' ? '+' : ''}${round2(t.amount)}
+              </span>
+            </button>
+            {open === t && (
+              <div className="txDetail mono">
+                {[
+                  `Account: ${account(t) || '—'}`,
+                  `File: ${t.source ?? '—'}`,
+                  `Direction: ${t.direction === 'in' ? 'money in' : 'money out'}`,
+                  t.refundId && t.direction === 'out' && `Refunded $${round2(t.refunded ?? 0)} by: ${describe(partnerOf(t, t.refundId))}`,
+                  t.refundId && t.direction === 'in' && `Reverses: ${describe(partnerOf(t, t.refundId))}`,
+                  t.transferId && `Transfer ${t.direction === 'in' ? 'from' : 'to'}: ${describe(partnerOf(t, t.transferId))}`,
+                  t.suggestedTransferId && `Possibly a transfer ${t.direction === 'in' ? 'from' : 'to'}: ${describe(partnerOf(t, t.suggestedTransferId))}`,
+                  categoryOf(t) && `Category: ${categoryPath(categories, categoryOf(t)!.categoryId)} (${CATEGORY_SOURCE_LABELS[categoryOf(t)!.source]})`,
+                  `Counts as: ${netAmount(t) === 0 ? 'nothing' : netAmount(t) > 0 ? `$${round2(netAmount(t))} spent` : `$${round2(-netAmount(t))} received`}`,
+                  '',
+                  ...Object.entries(t.raw).map(([k, v]) => `${k}: ${String(v ?? '')}`),
+                ]
+                  .filter((l) => l !== false && l !== undefined)
+                  .join('\n')}
+              </div>
+            )}
+          </div>
+        ))}
+        {rows.length > TX_PAGE && <div className="meta">Showing the newest {TX_PAGE} of {rows.length}; filter to narrow it down.</div>}
+      </div>
+    </>
+  )
+}
+
+function AlertList({ alerts }: { alerts: ChargeAlert[] }) {
+  if (alerts.length === 0) return null
+  return (
+    <div className="alertList">
+      {alerts.map((a) => (
+        <div key={`${a.merchantKey}|${a.status}`} className={`alertRow ${a.status}`}>
+          <span className="alertStatus">{ALERT_LABELS[a.status]}</span>
+          <span className="calMerchant">{a.merchant}</span>
+          <span className="meta">
+            {a.status === 'missed' &&
+              `Expected ${a.expected} ± ${a.graceDays} days, nothing posted${a.missedCount && a.missedCount > 1 ? ` (${a.missedCount} charges)` : ''}`}
+            {a.status === 'late' && `Due ${a.expected} ± ${a.graceDays} days, posted ${a.actual}`}
+            {a.status === 'resumed' && `Stopped after ${a.expected}, charged again ${a.actual}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function PriceChanges({ groups }: { groups: RecurringGroup[] }) {
+  const increases = groups
+    .flatMap((g) => (g.priceChanges ?? []).filter((c) => c.to > c.from).map((c) => ({ ...c, g })))
+    .sort((a, b) => b.date.localeCompare(a.date))
+  const total = increases.reduce((sum, c) => sum + c.annualImpact, 0)
+
+  if (increases.length === 0) return <div className="empty">No price increases in the loaded history.</div>
+  return (
+    <div className="plan">
+      {increases.map((c) => (
+        <div key={`${c.g.merchantKey}|${c.date}`} className="planRow">
+          <div>
+            <div className="merchant">{c.g.merchant}</div>
+            <div className="meta">
+              ${round2(c.from)} → ${round2(c.to)} since {c.date}
+              {!c.confirmed && ' (one charge so far)'}
+            </div>
+          </div>
+          <div className="calAmt">+${round2(c.annualImpact)}/yr</div>
+        </div>
+      ))}
+      <div className="small" style={{ marginTop: 8 }}>
+        Total: <b>+${round2(total)}</b> per year
+      </div>
+    </div>
+  )
+}
+
+function HeaderSelect({
+  label,
+  headers,
+  value,
+  onChange,
+}: {
+  label: string
+  headers: string[]
+  value?: string
+  onChange: (header: string) => void
+}) {
+  return (
+    <label>
+      {label}
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value)}>
+        <option value="">—</option>
+        {headers.map((h) => (
+          <option key={h} value={h}>
+            {h}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+function CsvPreview({ headers, rows, map }: { headers: string[]; rows: Record<string, string>[]; map: ColumnMap | null }) {
+  const mapped = new Set([map?.date, map?.description, map?.amount, map?.debit, map?.credit, map?.type].filter(Boolean))
+
+  if (rows.length === 0) return <div className="empty" style={{ marginTop: 12 }}>No data rows below the header row.</div>
+
+  return (
+    <div className="csvPreview">
+      <table>
+        <thead>
+          <tr>
+            {headers.map((h) => (
+              <th key={h} className={mapped.has(h) ? 'mapped' : ''}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, i) => (
+            <tr key={i}>
+              {headers.map((h) => (
+                <td key={h} className={mapped.has(h) ? 'mapped' : ''}>
+                  {r[h]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function ProfilesEditor({
+  profiles,
+  userProfiles,
+  onSave,
+  onDelete,
+}: {
+  profiles: ImportProfile[]
+  userProfiles: ImportProfile[]
+  onSave: (p: ImportProfile) => void
+  onDelete: (id: string) => void
+}) {
+  const builtInIds = new Set(BUILTIN_PROFILES.map((p) => p.id))
+  const userIds = new Set(userProfiles.map((p) => p.id))
+
+  return (
+    <div className="plan">
+      <p className="small">
+        A profile's columns and header row come from the file it was saved from and can't be edited here. To change them, upload a file the profile matches,
+        fix the mapping and click <b>Update profile</b>.
+      </p>
+      {profiles.map((p) => (
+        // a row starts over from the saved profile whenever that changes (Save, Reset, cloud load)
+        <ProfileRow
+          key={JSON.stringify(p)}
+          profile={p}
+          builtIn={builtInIds.has(p.id)}
+          edited={userIds.has(p.id)}
+          onSave={onSave}
+          onDelete={onDelete}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Edits stay in the row until Save, so typing doesn't reorder the list or fork a built-in
+function ProfileRow({
+  profile,
+  builtIn,
+  edited,
+  onSave,
+  onDelete,
+}: {
+  profile: ImportProfile
+  builtIn: boolean
+  edited: boolean
+  onSave: (p: ImportProfile) => void
+  onDelete: (id: string) => void
+}) {
+  const [draft, setDraft] = useState(profile)
+  const dirty = draft !== profile
+
+  return (
+    <div className="profileRow">
+      <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+      <input value={draft.account} placeholder="Account label" onChange={(e) => setDraft({ ...draft, account: e.target.value })} />
+      <select value={draft.expenseSign} onChange={(e) => setDraft({ ...draft, expenseSign: e.target.value as ExpenseSign })}>
+        <option value="auto">Auto sign</option>
+        <option value="negative">Expenses negative</option>
+        <option value="positive">Expenses positive</option>
+      </select>
+      <input value={draft.dateFormat} placeholder="Date format (auto)" onChange={(e) => setDraft({ ...draft, dateFormat: e.target.value })} />
+      <input
+        type="number"
+        min={0}
+        title="Preamble rows"
+        value={draft.skipRows}
+        onChange={(e) => setDraft({ ...draft, skipRows: Math.max(0, Number(e.target.value) || 0) })}
+      />
+      <div className="row">
+        {dirty && (
+          <>
+            <button className="btn" type="button" disabled={!draft.name.trim()} onClick={() => onSave({ ...draft, name: draft.name.trim() })}>
+              Save
+            </button>
+            <button className="btn secondary" type="button" onClick={() => setDraft(profile)}>
+              Cancel
+            </button>
+          </>
+        )}
+        {!dirty &&
+          (edited ? (
+            <button className="btn secondary" type="button" onClick={() => onDelete(profile.id)}>
+              {builtIn ? 'Reset' : 'Delete'}
+            </button>
+          ) : (
+            <span className="meta">Built-in</span>
+          ))}
+      </div>
+      <div className="meta profileCols">{profile.headers.join(' · ')}</div>
+    </div>
+  )
+}
+
+const RULE_MATCH_LABELS: Record<RuleMatch, string> = { exact: 'Is exactly', contains: 'Contains', regex: 'Matches regex' }
+
+function RulesEditor({ rules, disabled, onChange }: { rules: MerchantRule[]; disabled: boolean; onChange: (rules: MerchantRule[]) => void }) {
+  const [draft, setDraft] = useState<Omit<MerchantRule, 'id'>>({ match: 'contains', pattern: '', action: 'merge', merchant: '' })
+  const error = draft.pattern ? ruleError(draft) : null
+  const canAdd = !disabled && !!draft.pattern.trim() && !error && (draft.action === 'split' || !!draft.merchant.trim())
+
+  function move(i: number, by: number) {
+    const next = [...rules]
+    const [r] = next.splice(i, 1)
+    next.splice(i + by, 0, r)
+    onChange(next)
+  }
+
+  return (
+    <div className="plan">
+      <p className="small">
+        Rules are checked top to bottom against the bank description; the first match decides the group. <b>Merge</b> puts every match under one merchant
+        name; <b>Split</b> keeps each distinct description in a group of its own.
+      </p>
+      {rules.map((r, i) => (
+        <div key={r.id} className="ruleRow">
+          <span>
+            {RULE_MATCH_LABELS[r.match]} <code>{r.pattern}</code>
+          </span>
+          <span>{r.action === 'merge' ? `→ ${r.merchant}` : `Split${r.merchant ? ` as ${r.merchant}` : ''}`}</span>
+          <div className="row">
+            <button className="btn secondary" type="button" disabled={disabled || i === 0} onClick={() => move(i, -1)}>
+              ↑
+            </button>
+            <button className="btn secondary" type="button" disabled={disabled || i === rules.length - 1} onClick={() => move(i, 1)}>
+              ↓
+            </button>
+            <button className="btn secondary" type="button" disabled={disabled} onClick={() => onChange(rules.filter((x) => x.id !== r.id))}>
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="ruleRow">
+        <div className="row">
+          <select value={draft.match} onChange={(e) => setDraft({ ...draft, match: e.target.value as RuleMatch })}>
+            {(Object.keys(RULE_MATCH_LABELS) as RuleMatch[]).map((m) => (
+              <option key={m} value={m}>
+                {RULE_MATCH_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <input value={draft.pattern} placeholder={draft.match === 'regex' ? '^AMZN|AMAZON' : 'AMZN'} onChange={(e) => setDraft({ ...draft, pattern: e.target.value })} />
+        </div>
+        <div className="row">
+          <select value={draft.action} onChange={(e) => setDraft({ ...draft, action: e.target.value as MerchantRule['action'] })}>
+            <option value="merge">Merge as</option>
+            <option value="split">Split</option>
+          </select>
+          <input
+            value={draft.merchant}
+            placeholder={draft.action === 'merge' ? 'Merchant name' : 'Name prefix (optional)'}
+            onChange={(e) => setDraft({ ...draft, merchant: e.target.value })}
+          />
+        </div>
+        <button
+          className="btn"
+          type="button"
+          disabled={!canAdd}
+          onClick={() => {
+            onChange([...rules, { id: newRuleId(), ...draft, pattern: draft.pattern.trim(), merchant: draft.merchant.trim() }])
+            setDraft({ ...draft, pattern: '', merchant: '' })
+          }}
+        >
+          Add rule
+        </button>
+      </div>
+      {error && <div className="meta">{error}</div>}
+    </div>
+  )
+}
+
+function AccountFilter({ accounts, value, onChange }: { accounts: Account[]; value: string; onChange: (id: string) => void }) {
+  if (accounts.length === 0) return null
+  return (
+    <label className="small">
+      Account:{' '}
+      <select value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">All accounts</option>
+        {accounts.map((a) => (
+          <option key={a.id} value={a.id}>
+            {accountName(a)}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+function AccountsEditor({ accounts, imports, onChange }: { accounts: Account[]; imports: ImportRecord[]; onChange: (accounts: Account[]) => void }) {
+  const [draft, setDraft] = useState<Omit<Account, 'id'>>({ name: '', institution: '', type: 'checking', last4: '' })
+  const update = (id: string, patch: Partial<Account>) => onChange(accounts.map((a) => (a.id === id ? { ...a, ...patch } : a)))
+  const digits = (s: string) => s.replace(/\D/g, '').slice(-4)
+
+  const row = (a: Omit<Account, 'id'>, set: (patch: Partial<Account>) => void) => (
+    <>
+      <input value={a.name} placeholder="Name (e.g. Joint checking)" onChange={(e) => set({ name: e.target.value })} />
+      <input value={a.institution} placeholder="Institution" onChange={(e) => set({ institution: e.target.value })} />
+      <select value={a.type} onChange={(e) => set({ type: e.target.value as AccountType })}>
+        {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((t) => (
+          <option key={t} value={t}>
+            {ACCOUNT_TYPE_LABELS[t]}
+          </option>
+        ))}
+      </select>
+      <input value={a.last4} placeholder="Last 4" inputMode="numeric" onChange={(e) => set({ last4: digits(e.target.value) })} />
+    </>
+  )
+
+  return (
+    <div className="plan">
+      {accounts.map((a) => (
+        <div key={a.id} className="accountRow">
+          {row(a, (patch) => update(a.id, patch))}
+          <button
+            className="btn secondary"
+            type="button"
+            onClick={() => {
+              // rows keep their account id, so one still in use can't go
+              const used = imports.filter((r) => r.accountId === a.id).length
+              if (used > 0) return alert(`${accountName(a)} is assigned to ${used} import${used === 1 ? '' : 's'}. Move them to another account under Import history first.`)
+              onChange(accounts.filter((x) => x.id !== a.id))
+            }}
+          >
+            Delete
+          </button>
+        </div>
+      ))}
+      <div className="accountRow">
+        {row(draft, (patch) => setDraft({ ...draft, ...patch }))}
+        <button
+          className="btn"
+          type="button"
+          disabled={!draft.name.trim()}
+          onClick={() => {
+            onChange([...accounts, { id: newAccountId(), ...draft, name: draft.name.trim(), institution: draft.institution.trim() }])
+            setDraft({ name: '', institution: '', type: 'checking', last4: '' })
+          }}
+        >
+          Add account
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function ImportHistory({
+  imports,
+  accounts,
+  disabled,
+  onAccount,
+  onRemove,
+}: {
+  imports: ImportRecord[]
+  accounts: Account[]
+  disabled: boolean
+  onAccount: (id: string, accountId: string) => void
+  onRemove: (id: string) => void
+}) {
+  return (
+    <div className="importList">
+      {imports.map((r) => (
+        <div key={r.id} className="importRow">
+          <div>
+            <b>{r.fileName}</b>
+            <div className="meta">
+              {r.format.toUpperCase()} • {r.rowCount} rows
+              {r.from && r.to && (
+                <>
+                  {' '}
+                  • {r.from} → {r.to}
+                </>
+              )}
+              {r.profile && <> • {r.profile}</>} • imported {format(new Date(r.importedAt), 'MMM d, yyyy HH:mm')}
+            </div>
+          </div>
+          <div className="row">
+            {accounts.length > 0 && (
+              <select value={r.accountId ?? ''} disabled={disabled} onChange={(e) => onAccount(r.id, e.target.value)}>
+                <option value="">No account</option>
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {accountName(a)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button className="btn secondary" type="button" onClick={() => onRemove(r.id)}>
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function PdfReview({ rows, onChange }: { rows: PdfRow[]; onChange: (rows: PdfRow[]) => void }) {
+  const update = (i: number, patch: Partial<PdfRow>) => onChange(rows.map((r, j) => (j === i ? { ...r, ...patch } : r)))
+
+  if (rows.length === 0) return <div className="empty">No transaction rows found in this PDF.</div>
+
+  return (
+    <>
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <div className="small">
+          Found <b>{rows.length}</b> rows • <b>{rows.filter((r) => r.include).length}</b> selected. Positive = money out; negative = money in.
+        </div>
+        <button className="btn secondary" type="button" onClick={() => onChange(rows.map((r) => ({ ...r, amount: -r.amount })))}>
+          Flip all signs
+        </button>
+      </div>
+      <div className="pdfRows">
+        {rows.map((r, i) => (
+          <div key={i} className={`pdfRow ${r.include ? '' : 'muted'}`}>
+            <input type="checkbox" checked={r.include} onChange={(e) => update(i, { include: e.target.checked })} />
+            <input type="date" value={r.date} onChange={(e) => update(i, { date: e.target.value })} />
+            <input value={r.description} onChange={(e) => update(i, { description: e.target.value })} />
+            <input
+              className="moneySmall"
+              inputMode="decimal"
+              value={String(r.amount)}
+              onChange={(e) => update(i, { amount: moneyToNumber(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+    </>
+  )
+}
+
 function UpcomingList({
   kind,
   groups,
+  shift,
 }: {
   kind: 'bill' | 'subscription'
   groups: Array<RecurringGroup & { _decision?: Decision }>
+  shift: ShiftRule
 }) {
-  const now = new Date()
-  const today = now.getDate()
-
-  const items = groups
-    .filter((g: any) => g.kind === kind && g.usualDayOfMonth)
-    .map((g: any) => {
-      const d = g.usualDayOfMonth as number
-      const delta = d >= today ? d - today : 999
-      return { ...g, _delta: delta }
-    })
-    .filter((g: any) => g._delta <= 14)
-    .sort((a: any, b: any) => a._delta - b._delta)
-
-  return items
+  const today = startOfDay(new Date())
+  return scheduleRange(
+    groups.filter((g) => g.kind === kind),
+    today,
+    addDays(today, 14),
+    { shift },
+  )
 }
 
-function UpcomingCombined({ groups }: { groups: Array<RecurringGroup & { _decision?: Decision }> }) {
-  const bills = UpcomingList({ kind: 'bill', groups } as any) as any[]
-  const subs = UpcomingList({ kind: 'subscription', groups } as any) as any[]
+function UpcomingCombined({ groups, shift }: { groups: Array<RecurringGroup & { _decision?: Decision }>; shift: ShiftRule }) {
+  const bills = UpcomingList({ kind: 'bill', groups, shift })
+  const subs = UpcomingList({ kind: 'subscription', groups, shift })
 
   return (
     <div className="upcoming">
@@ -768,10 +2389,10 @@ function UpcomingCombined({ groups }: { groups: Array<RecurringGroup & { _decisi
         {bills.length === 0 ? (
           <div className="empty" style={{ marginTop: 10 }}>None due soon.</div>
         ) : (
-          bills.slice(0, 4).map((g: any) => (
-            <div key={g.merchantKey} className="upRow">
+          bills.slice(0, 4).map(({ date, group: g }) => (
+            <div key={`${g.merchantKey}|${date.getTime()}`} className="upRow">
               <span className="calMerchant">{g.merchant}</span>
-              <span className="meta">{ordinal(g.usualDayOfMonth)}</span>
+              <span className="meta">{format(date, 'EEE MMM d')}</span>
               <span className="calAmt">${round2(g.typicalAmount)}</span>
             </div>
           ))
@@ -789,10 +2410,10 @@ function UpcomingCombined({ groups }: { groups: Array<RecurringGroup & { _decisi
         {subs.length === 0 ? (
           <div className="empty" style={{ marginTop: 10 }}>None due soon.</div>
         ) : (
-          subs.slice(0, 4).map((g: any) => (
-            <div key={g.merchantKey} className="upRow">
+          subs.slice(0, 4).map(({ date, group: g }) => (
+            <div key={`${g.merchantKey}|${date.getTime()}`} className="upRow">
               <span className="calMerchant">{g.merchant}</span>
-              <span className="meta">{ordinal(g.usualDayOfMonth)}</span>
+              <span className="meta">{format(date, 'EEE MMM d')}</span>
               <span className="calAmt">${round2(g.typicalAmount)}</span>
             </div>
           ))
@@ -802,20 +2423,17 @@ function UpcomingCombined({ groups }: { groups: Array<RecurringGroup & { _decisi
   )
 }
 
-function BillsCalendar({ month, groups }: { month: Date; groups: Array<RecurringGroup & { _decision?: Decision }> }) {
+function BillsCalendar({ month, groups, shift }: { month: Date; groups: Array<RecurringGroup & { _decision?: Decision }>; shift: ShiftRule }) {
   const start = startOfMonth(month)
   const daysInMonth = getDaysInMonth(month)
   const startWeekday = getDay(start) // 0=Sun
 
   const byDay = new Map<number, Array<{ merchant: string; amount: number; kind: 'bill' | 'subscription' }>>()
-  for (const g of groups as any[]) {
-    if (g.kind !== 'bill' && g.kind !== 'subscription') continue
-    if (g.cadence !== 'monthly') continue
-    if (!g.usualDayOfMonth) continue
-    const d = Math.min(daysInMonth, Math.max(1, g.usualDayOfMonth))
-    const arr = byDay.get(d) ?? []
-    arr.push({ merchant: g.merchant, amount: g.typicalAmount, kind: g.kind })
-    byDay.set(d, arr)
+  const due = groups.filter((g) => g.kind === 'bill' || g.kind === 'subscription')
+  for (const { date, group: g } of scheduleRange(due, start, endOfMonth(month), { shift })) {
+    const arr = byDay.get(date.getDate()) ?? []
+    arr.push({ merchant: g.merchant, amount: g.typicalAmount, kind: g.kind as 'bill' | 'subscription' })
+    byDay.set(date.getDate(), arr)
   }
 
   // 6 rows x 7 cols
@@ -860,24 +2478,68 @@ function BillsCalendar({ month, groups }: { month: Date; groups: Array<Recurring
 
 function BudgetBuilder({
   budget,
+  categories,
+  actuals,
+  carry,
+  rollover,
+  onRollover,
+  lastPlan,
+  onCopyPlan,
   onIncome,
   onPlanned,
   groups,
+  funds,
+  month,
+  shift,
 }: {
-  budget: BudgetState
+  budget: MonthBudget
+  categories: Category[]
+  actuals: Map<string, number> // spending per category id in the month shown
+  carry: Map<string, number> // balance rolled into this month, per rollover category
+  rollover: Record<string, boolean>
+  onRollover: (cat: string, on: boolean) => void
+  lastPlan: string | null // 'yyyy-MM' of the latest earlier month with a plan
+  onCopyPlan: (key: string) => void
   onIncome: (n: number) => void
   onPlanned: (cat: string, n: number) => void
-  groups: Array<RecurringGroup & { _decision?: Decision; _category?: Category }>
+  groups: Array<RecurringGroup & { _decision?: Decision; _category?: string }>
+  funds: SinkingFund[]
+  month: Date
+  shift: ShiftRule
 }) {
   const accepted = groups.filter((g: any) => g.kind === 'bill' || g.kind === 'subscription')
 
+  // paychecks actually due this month: a biweekly job pays three times in some months
+  const income = groups.filter((g) => g.kind === 'income')
+  const detectedIncome = income.reduce((sum, g) => sum + expectedDates(g, startOfMonth(month), endOfMonth(month), { shift }).length * g.typicalAmount, 0)
+
+  const rows = orderedCategories(categories)
+  const active = new Set(rows.map(({ cat }) => cat.id))
+
+  // Groups in an archived (or unknown) category are suggested under the
+  // fallback. Charges with a sinking fund suggest this month's set-aside
+  // instead, under Savings unless they have a category of their own.
+  const setAside = new Map(funds.map((f) => [f.group.merchantKey, f.monthlySetAside]))
   const suggested = new Map<string, number>()
   for (const g of accepted as any[]) {
-    const cat = g._category ?? (g.kind === 'subscription' ? 'Subscriptions' : 'Other')
-    suggested.set(cat, (suggested.get(cat) ?? 0) + g.typicalAmount)
+    const own = g._category && active.has(g._category) ? g._category : undefined
+    const fund = setAside.get(g.merchantKey)
+    const savings = active.has(SAVINGS_CATEGORY) ? SAVINGS_CATEGORY : FALLBACK_CATEGORY
+    const cat = own ?? (fund != null ? savings : g.kind === 'subscription' ? SUBSCRIPTIONS_CATEGORY : FALLBACK_CATEGORY)
+    suggested.set(cat, (suggested.get(cat) ?? 0) + (fund ?? monthlyEquivalent(g.typicalAmount, g.cadence)))
   }
 
-  const plannedTotal = DEFAULT_CATEGORIES.reduce((sum, c) => sum + (Number(budget.plannedByCategory[c] ?? 0) || 0), 0)
+  const plannedOf = (id: string) => Number(budget.plannedByCategory[id] ?? 0) || 0
+  const plannedTotal = rows.reduce((sum, { cat }) => sum + plannedOf(cat.id), 0)
+
+  // spending in an archived category still counts, under the fallback
+  const actual = new Map<string, number>()
+  for (const [id, amt] of actuals) {
+    const to = active.has(id) ? id : FALLBACK_CATEGORY
+    actual.set(to, (actual.get(to) ?? 0) + amt)
+  }
+  const actualOf = (id: string) => actual.get(id) ?? 0
+  const actualTotal = Array.from(actual.values()).reduce((sum, n) => sum + n, 0)
   const remaining = (Number(budget.income) || 0) - plannedTotal
 
   const status = remaining === 0 ? 'Fully planned' : remaining > 0 ? 'Remaining to allocate' : 'Over planned'
@@ -896,12 +2558,25 @@ function BudgetBuilder({
               onChange={(e) => onIncome(moneyToNumber(e.target.value))}
             />
           </div>
-          <div className="small">Monthly take-home</div>
+          <div className="small">
+            Monthly take-home
+            {detectedIncome > 0 && roundMoney(detectedIncome) !== budget.income && (
+              <>
+                {' '}
+                •{' '}
+                <button className="link" type="button" onClick={() => onIncome(roundMoney(detectedIncome))}>
+                  Use detected ${round2(detectedIncome)} for {format(month, 'MMM')}
+                </button>
+              </>
+            )}
+          </div>
         </div>
         <div className="dashCard">
           <div className="k">Planned</div>
           <div className="dashMain">${round2(plannedTotal)}</div>
-          <div className="small">All categories</div>
+          <div className="small">
+            All categories • spent ${round2(actualTotal)} in {format(month, 'MMM')}
+          </div>
         </div>
         <div className={`dashCard ${remaining === 0 ? 'primary' : ''}`}>
           <div className="k">{status}</div>
@@ -914,13 +2589,24 @@ function BudgetBuilder({
 
       <div className="row" style={{ marginTop: 12, justifyContent: 'space-between' }}>
         <div className="small">Tip: start by applying your recurring bills/subscriptions, then fill the rest.</div>
+        {lastPlan && (
+          <button
+            className="btn secondary"
+            type="button"
+            onClick={() => {
+              if (plannedTotal === 0 || confirm(`Replace this month's plan with ${format(parse(lastPlan, 'yyyy-MM', new Date()), 'LLLL')}'s?`)) onCopyPlan(lastPlan)
+            }}
+          >
+            Copy {format(parse(lastPlan, 'yyyy-MM', new Date()), 'MMM yyyy')} plan
+          </button>
+        )}
         <button
           className="btn secondary"
           type="button"
           onClick={() => {
-            for (const c of DEFAULT_CATEGORIES) {
-              const s = suggested.get(c) ?? 0
-              if (s > 0) onPlanned(c, roundMoney(s))
+            for (const { cat } of rows) {
+              const s = suggested.get(cat.id) ?? 0
+              if (s > 0) onPlanned(cat.id, roundMoney(s))
             }
           }}
         >
@@ -929,16 +2615,41 @@ function BudgetBuilder({
       </div>
 
       <div className="plan">
-        {DEFAULT_CATEGORIES.map((c) => {
-          const planned = Number(budget.plannedByCategory[c] ?? 0) || 0
+        {rows.map(({ cat, depth }) => {
+          const c = cat.id
+          const planned = plannedOf(c)
           const sug = suggested.get(c) ?? 0
+          // a parent's own amounts plus its subcategories'
+          const children = rows.filter((r) => r.cat.parentId === c)
+          const withChildren = planned + children.reduce((sum, r) => sum + plannedOf(r.cat.id), 0)
+          const spent = actualOf(c)
+          const carried = rollover[c] ? (carry.get(c) ?? 0) : 0
+          const left = planned + carried - spent
           return (
-            <div key={c} className="planRow">
+            <div key={c} className="planRow" style={depth > 0 ? { paddingLeft: 22 } : undefined}>
               <div>
-                <div className="merchant">{c}</div>
-                <div className="meta">Suggested: ${round2(sug)}</div>
+                <div className="merchant">
+                  <span className="catDot" style={{ background: cat.color }} /> {cat.name}
+                </div>
+                <div className="meta">
+                  Suggested: ${round2(sug)}
+                  {carried !== 0 && <> • {`${carried > 0 ? '+' : '−'}$${round2(Math.abs(carried))} rolled over`}</>}
+                  {` • Spent $${round2(spent)} • `}
+                  <span style={{ color: left < 0 ? '#b91c1c' : undefined }}>
+                    {left < 0 ? `Over by $${round2(-left)}` : `$${round2(left)} left`}
+                  </span>
+                  {children.length > 0 && (
+                    <>
+                      {' '}
+                      • with subcategories ${round2(withChildren)} planned, ${round2(spent + children.reduce((sum, r) => sum + actualOf(r.cat.id), 0))} spent
+                    </>
+                  )}
+                </div>
               </div>
               <div className="row" style={{ justifyContent: 'flex-end' }}>
+                <label className="meta" title="Carry what's left (or overspent) into next month">
+                  <input type="checkbox" checked={!!rollover[c]} onChange={(e) => onRollover(c, e.target.checked)} /> Roll over
+                </label>
                 <input
                   className="moneySmall"
                   inputMode="decimal"
@@ -955,6 +2666,345 @@ function BudgetBuilder({
   )
 }
 
+function SinkingFunds({
+  funds,
+  contributions,
+  month,
+  onContribute,
+}: {
+  funds: SinkingFund[]
+  contributions: Record<string, Contribution[]>
+  month: Date
+  onContribute: (key: string, c: Contribution) => void
+}) {
+  if (funds.length === 0) return <div className="empty">No quarterly, semiannual or yearly bills yet.</div>
+  const total = funds.reduce((sum, f) => sum + f.monthlySetAside, 0)
+  return (
+    <div className="plan">
+      <div className="small">
+        Set aside ${round2(total)} in {format(month, 'MMM')} to have every non-monthly bill covered when it's due. A fund's balance starts over after its charge posts.
+      </div>
+      {funds.map((f) => {
+        const key = f.group.merchantKey
+        return (
+          <div key={key} className="planRow">
+            <div>
+              <div className="merchant">
+                {f.group.merchant}
+                <span className={`fundStatus ${f.status}`}>{FUND_STATUS_LABELS[f.status]}</span>
+              </div>
+              <div className="meta">
+                ${round2(f.target)} {CADENCE_LABELS[f.group.cadence]} • due {format(f.nextDue, 'MMM d, yyyy')} ({f.monthsLeft} {f.monthsLeft === 1 ? 'month' : 'months'} left)
+                {` • saved $${round2(f.saved)}`}
+                {f.status === 'behind' && ` of $${round2(f.expectedSaved)} expected by now`}
+                {` • set aside $${round2(f.monthlySetAside)}/mo`}
+              </div>
+            </div>
+            <div className="row" style={{ justifyContent: 'flex-end' }}>
+              <label className="meta">
+                Balance{' '}
+                <input
+                  key={f.saved}
+                  className="moneySmall"
+                  inputMode="decimal"
+                  defaultValue={f.saved ? String(roundMoney(f.saved)) : ''}
+                  placeholder="0"
+                  onBlur={(e) => onContribute(key, balanceCorrection(f.group, contributions[key], moneyToNumber(e.target.value)))}
+                />
+              </label>
+              <button className="btn secondary" type="button" disabled={f.monthlySetAside <= 0} onClick={() => onContribute(key, contribution(f.monthlySetAside))}>
+                Add ${round2(f.monthlySetAside)}
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function PayPeriodsView({
+  schedule,
+  onSchedule,
+  groups,
+  month,
+  shift,
+}: {
+  schedule: PaySchedule
+  onSchedule: (s: PaySchedule) => void
+  groups: RecurringGroup[]
+  month: Date
+  shift: ShiftRule
+}) {
+  const income = groups.filter((g) => g.kind === 'income')
+  const bills = groups.filter((g) => g.kind === 'bill' || g.kind === 'subscription')
+  const periods = payPeriods(schedule, income, bills, month, { shift })
+  const manual = schedule.mode === 'manual' ? schedule : { mode: 'manual' as const, cadence: 'biweekly' as PayCadence, payday: format(new Date(), 'yyyy-MM-dd'), amount: 0 }
+
+  return (
+    <>
+      <div className="row">
+        <label className="meta">
+          Paydays{' '}
+          <select value={schedule.mode} onChange={(e) => onSchedule(e.target.value === 'manual' ? manual : DEFAULT_PAY_SCHEDULE)}>
+            <option value="detected">From recurring deposits</option>
+            <option value="manual">Set my own schedule</option>
+          </select>
+        </label>
+        {schedule.mode === 'manual' && (
+          <>
+            <select value={schedule.cadence} onChange={(e) => onSchedule({ ...schedule, cadence: e.target.value as PayCadence })}>
+              {(Object.keys(PAY_CADENCE_LABELS) as PayCadence[]).map((c) => (
+                <option key={c} value={c}>
+                  {PAY_CADENCE_LABELS[c]}
+                </option>
+              ))}
+            </select>
+            {schedule.cadence !== 'semimonthly' && (
+              <label className="meta" title="Any past or upcoming payday">
+                Payday{' '}
+                <input type="date" value={schedule.payday} onChange={(e) => e.target.value && onSchedule({ ...schedule, payday: e.target.value })} />
+              </label>
+            )}
+            <label className="meta">
+              Take-home{' '}
+              <input
+                className="moneySmall"
+                inputMode="decimal"
+                value={schedule.amount ? String(schedule.amount) : ''}
+                placeholder="0"
+                onChange={(e) => onSchedule({ ...schedule, amount: moneyToNumber(e.target.value) })}
+              />
+            </label>
+          </>
+        )}
+      </div>
+      <div className="small" style={{ marginTop: 8 }}>
+        Each bill is covered by the last paycheck before its due date. Periods are listed by the payday they start on in {format(month, 'LLLL')}.
+      </div>
+
+      <div className="plan">
+        {periods.map((p) => (
+          <div key={p.paycheck.date.toISOString()} className={`payPeriod ${p.short ? 'short' : ''}`}>
+            <div className="row" style={{ justifyContent: 'space-between' }}>
+              <div>
+                <div className="merchant">
+                  {format(p.paycheck.date, 'EEE, MMM d')} • ${round2(p.paycheck.amount)}
+                  {p.short && <span className="fundStatus behind">Short</span>}
+                </div>
+                <div className="meta">
+                  {p.paycheck.sources.join(' + ')}
+                  {p.next && ` • covers bills through ${format(p.next, 'MMM d')}`}
+                </div>
+              </div>
+              <div style={{ textAlign: 'right' }}>
+                <div className="k">{p.short ? 'Short by' : 'Left over'}</div>
+                <div className="merchant" style={{ color: p.short ? '#b91c1c' : undefined }}>
+                  ${round2(Math.abs(p.leftover))}
+                </div>
+              </div>
+            </div>
+            {p.bills.map((b) => (
+              <div key={`${b.group.merchantKey}-${b.date.getTime()}`} className="payBill">
+                <span>
+                  {format(b.date, 'MMM d')} • {b.group.merchant}
+                </span>
+                <span>${round2(b.group.typicalAmount)}</span>
+              </div>
+            ))}
+            {p.bills.length === 0 && <div className="meta">No bills due this period.</div>}
+          </div>
+        ))}
+        {periods.length === 0 && (
+          <div className="empty">
+            {schedule.mode === 'manual' ? 'No paydays this month.' : 'No recurring deposits found — set your own pay schedule above.'}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+function CategoryRulesEditor({
+  rules,
+  categories,
+  accounts,
+  onChange,
+}: {
+  rules: CategoryRule[]
+  categories: Category[]
+  accounts: Account[]
+  onChange: (rules: CategoryRule[]) => void
+}) {
+  const empty: Omit<CategoryRule, 'id'> = { match: 'contains', pattern: '', categoryId: '' }
+  const [draft, setDraft] = useState(empty)
+  const error = draft.pattern ? ruleError(draft) : null
+  // a rule needs something to match on besides the category
+  const canAdd = !!draft.categoryId && !error && (!!draft.pattern.trim() || draft.minAmount != null || draft.maxAmount != null || !!draft.accountId)
+  const amount = (s: string) => (s.trim() ? moneyToNumber(s) : undefined)
+
+  function move(i: number, by: number) {
+    const next = [...rules]
+    const [r] = next.splice(i, 1)
+    next.splice(i + by, 0, r)
+    onChange(next)
+  }
+
+  const describe = (r: CategoryRule) =>
+    [
+      r.pattern && `${RULE_MATCH_LABELS[r.match].toLowerCase()} "${r.pattern}"`,
+      r.minAmount != null && `≥ $${round2(r.minAmount)}`,
+      r.maxAmount != null && `≤ $${round2(r.maxAmount)}`,
+      r.accountId && `from ${accounts.find((a) => a.id === r.accountId)?.name ?? 'a removed account'}`,
+    ]
+      .filter(Boolean)
+      .join(', ')
+
+  return (
+    <div className="plan">
+      <p className="small">
+        Every transaction takes its merchant's category when one is set on a recurring card; otherwise the first matching rule below, top to bottom; otherwise{' '}
+        {categoryPath(categories, FALLBACK_CATEGORY)}.
+      </p>
+      {rules.map((r, i) => (
+        <div key={r.id} className="ruleRow">
+          <span>{describe(r)}</span>
+          <span>→ {categoryPath(categories, r.categoryId)}</span>
+          <div className="row">
+            <button className="btn secondary" type="button" disabled={i === 0} onClick={() => move(i, -1)}>
+              ↑
+            </button>
+            <button className="btn secondary" type="button" disabled={i === rules.length - 1} onClick={() => move(i, 1)}>
+              ↓
+            </button>
+            <button className="btn secondary" type="button" onClick={() => onChange(rules.filter((x) => x.id !== r.id))}>
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="ruleRow">
+        <div className="row">
+          <select value={draft.match} onChange={(e) => setDraft({ ...draft, match: e.target.value as RuleMatch })}>
+            {(Object.keys(RULE_MATCH_LABELS) as RuleMatch[]).map((m) => (
+              <option key={m} value={m}>
+                {RULE_MATCH_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <input value={draft.pattern} placeholder="Description (optional)" onChange={(e) => setDraft({ ...draft, pattern: e.target.value })} />
+          <input
+            className="moneySmall"
+            inputMode="decimal"
+            placeholder="Min $"
+            value={draft.minAmount ?? ''}
+            onChange={(e) => setDraft({ ...draft, minAmount: amount(e.target.value) })}
+          />
+          <input
+            className="moneySmall"
+            inputMode="decimal"
+            placeholder="Max $"
+            value={draft.maxAmount ?? ''}
+            onChange={(e) => setDraft({ ...draft, maxAmount: amount(e.target.value) })}
+          />
+          {accounts.length > 0 && (
+            <select value={draft.accountId ?? ''} onChange={(e) => setDraft({ ...draft, accountId: e.target.value || undefined })}>
+              <option value="">Any account</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {accountName(a)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <select value={draft.categoryId} onChange={(e) => setDraft({ ...draft, categoryId: e.target.value })}>
+          <option value="">Category…</option>
+          {orderedCategories(categories).map(({ cat, depth }) => (
+            <option key={cat.id} value={cat.id}>
+              {depth > 0 ? `\u00a0\u00a0${categoryPath(categories, cat.id)}` : cat.name}
+            </option>
+          ))}
+        </select>
+        <button
+          className="btn"
+          type="button"
+          disabled={!canAdd}
+          onClick={() => {
+            onChange([...rules, { id: newCategoryRuleId(), ...draft, pattern: draft.pattern.trim() }])
+            setDraft(empty)
+          }}
+        >
+          Add rule
+        </button>
+      </div>
+      {error && <div className="meta">{error}</div>}
+    </div>
+  )
+}
+
+function CategoriesEditor({ categories, onChange }: { categories: Category[]; onChange: (categories: Category[]) => void }) {
+  const [draft, setDraft] = useState({ name: '', parentId: '', color: '#64748b' })
+  const update = (id: string, patch: Partial<Category>) => onChange(categories.map((c) => (c.id === id ? { ...c, ...patch } : c)))
+  // only top-level categories can have subcategories
+  const parents = (self?: string) => categories.filter((c) => !c.parentId && !c.archived && c.id !== self)
+
+  const parentSelect = (value: string, self: string | undefined, disabled: boolean, set: (parentId: string) => void) => (
+    <select value={value} disabled={disabled} onChange={(e) => set(e.target.value)}>
+      <option value="">Top level</option>
+      {parents(self).map((p) => (
+        <option key={p.id} value={p.id}>
+          Under {p.name}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="plan">
+      {orderedCategories(categories, { archived: true }).map(({ cat, depth }) => {
+        const hasChildren = categories.some((c) => c.parentId === cat.id)
+        return (
+          <div key={cat.id} className={`categoryRow ${cat.archived ? 'muted' : ''}`} style={depth > 0 ? { paddingLeft: 22 } : undefined}>
+            <input type="color" value={cat.color} onChange={(e) => update(cat.id, { color: e.target.value })} />
+            <input value={cat.name} onChange={(e) => update(cat.id, { name: e.target.value })} />
+            {parentSelect(cat.parentId ?? '', cat.id, hasChildren, (parentId) => update(cat.id, { parentId: parentId || undefined }))}
+            <div className="row">
+              <button className="btn secondary" type="button" onClick={() => onChange(moveCategory(categories, cat.id, -1))}>
+                ↑
+              </button>
+              <button className="btn secondary" type="button" onClick={() => onChange(moveCategory(categories, cat.id, 1))}>
+                ↓
+              </button>
+              <button className="btn secondary" type="button" onClick={() => update(cat.id, { archived: !cat.archived || undefined })}>
+                {cat.archived ? 'Restore' : 'Archive'}
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="categoryRow">
+        <input type="color" value={draft.color} onChange={(e) => setDraft({ ...draft, color: e.target.value })} />
+        <input value={draft.name} placeholder="New category (e.g. Pets)" onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+        {parentSelect(draft.parentId, undefined, false, (parentId) => setDraft({ ...draft, parentId }))}
+        <button
+          className="btn"
+          type="button"
+          disabled={!draft.name.trim()}
+          onClick={() => {
+            onChange([...categories, { id: newCategoryId(), name: draft.name.trim(), color: draft.color, parentId: draft.parentId || undefined }])
+            setDraft({ ...draft, name: '' })
+          }}
+        >
+          Add category
+        </button>
+      </div>
+    </div>
+  )
+}
+
 function moneyToNumber(s: string) {
   const n = Number(String(s).replace(/[^0-9.\-]/g, ''))
   return Number.isFinite(n) ? n : 0
@@ -968,8 +3018,9 @@ function Dashboard({ groups }: { groups: Array<RecurringGroup & { _decision?: De
   const acceptedBills = groups.filter((g) => g.kind === 'bill')
   const acceptedSubs = groups.filter((g) => g.kind === 'subscription')
 
-  const billTotal = acceptedBills.reduce((sum, g) => sum + g.typicalAmount, 0)
-  const subTotal = acceptedSubs.reduce((sum, g) => sum + g.typicalAmount, 0)
+  // quarterly/yearly charges count at their monthly share
+  const billTotal = acceptedBills.reduce((sum, g) => sum + monthlyEquivalent(g.typicalAmount, g.cadence), 0)
+  const subTotal = acceptedSubs.reduce((sum, g) => sum + monthlyEquivalent(g.typicalAmount, g.cadence), 0)
   const grandTotal = billTotal + subTotal
 
   return (
@@ -993,12 +3044,6 @@ function Dashboard({ groups }: { groups: Array<RecurringGroup & { _decision?: De
   )
 }
 
-function ordinal(n: number) {
-  const s = ['th', 'st', 'nd', 'rd']
-  const v = n % 100
-  return n + (s[(v - 20) % 10] || s[v] || s[0])
-}
-
 function Gate({ onAuthed }: { onAuthed: () => void }) {
   const [pw, setPw] = useState('')
   const [err, setErr] = useState<string | null>(null)
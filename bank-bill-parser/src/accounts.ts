@@ -0,0 +1,41 @@
+// The accounts your files come from. Each uploaded file is assigned one, every
+// row it brings in carries that account's id, and a recurring group is drawn
+// from the account of its latest charge, so moving an autopay from one card to
+// another shows up once the new card's export is loaded.
+
+export type AccountType = 'checking' | 'savings' | 'credit' | 'other'
+
+export type Account = {
+  id: string
+  name: string // e.g. "Joint checking"
+  institution: string
+  type: AccountType
+  last4: string // '' when unknown
+}
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit: 'Credit card',
+  other: 'Other',
+}
+
+export function newAccountId() {
+  return `acct_${crypto.randomUUID()}`
+}
+
+export function accountTypes(accounts: Account[]): Record<string, AccountType> {
+  return Object.fromEntries(accounts.map((a) => [a.id, a.type]))
+}
+
+// "Joint checking ••1234"
+export function accountName(a: Account) {
+  return a.last4 ? `${a.name} ••${a.last4}` : a.name
+}
+
+// Exports are often named after the account ("Chase1234_Activity.csv"), so a
+// file whose name contains exactly one account's last 4 digits gets it
+export function guessAccount(fileName: string, accounts: Account[]): string {
+  const hits = accounts.filter((a) => a.last4 && new RegExp(`(^|\\D)${a.last4}(\\D|$)`).test(fileName))
+  return hits.length === 1 ? hits[0].id : ''
+}
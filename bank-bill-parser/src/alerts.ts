@@ -0,0 +1,96 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { cadenceDays, cadenceTolerance, detectCadence } from './cadence'
+import type { RecurringGroup, Tx } from './lib'
+import { expectedDates, lastSeen } from './schedule'
+
+// Alerts for accepted bills and subscriptions, checked against the schedule:
+// an expected charge that never posted (failed autopay, cancelled card), a
+// charge that posted well after its date, and a group that went quiet for
+// several cycles and then charged again (a subscription you thought was gone).
+// Everything is measured against the newest transaction loaded from the
+// group's account (or, for a file without one, its upload), not today, so an
+// export that ends earlier than the others doesn't flag its bills as missed.
+
+export type AlertStatus = 'missed' | 'late' | 'resumed'
+
+export type ChargeAlert = {
+  merchantKey: string
+  merchant: string
+  status: AlertStatus
+  expected: string // yyyy-MM-dd the charge was due
+  graceDays: number // window either side of the expected date
+  actual?: string // yyyy-MM-dd it posted (late / resumed)
+  missedCount?: number // expected charges with nothing posted, for missed
+}
+
+export const ALERT_LABELS: Record<AlertStatus, string> = {
+  missed: 'Missed',
+  late: 'Late',
+  resumed: 'Charging again',
+}
+
+// a group whose last charge came this many periods after the one before had stopped
+const RESUMED_AFTER_PERIODS = 2.5
+
+function graceFor(g: RecurringGroup) {
+  // at least long enough to cover a weekend or holiday shift
+  return Math.max(3, Math.ceil(cadenceTolerance(g.cadence)))
+}
+
+// A long gap usually fits no cadence, so the group comes back 'unknown'; the
+// charges before the latest one still show how often it used to charge
+function periodBefore(g: RecurringGroup): number | null {
+  return cadenceDays(detectCadence(g.samples.slice(1).map((s) => parseISO(s.date))).cadence)
+}
+
+export function checkGroup(g: RecurringGroup, asOf: Date): ChargeAlert[] {
+  const last = lastSeen(g)
+  const period = cadenceDays(g.cadence) ?? periodBefore(g)
+  if (!period || !last) return []
+
+  const grace = graceFor(g)
+  const base = { merchantKey: g.merchantKey, merchant: g.merchant, graceDays: grace }
+  const out: ChargeAlert[] = []
+
+  // missed: due dates after the last charge whose grace window has closed
+  const due = expectedDates(g, addDays(last, grace + 1), addDays(asOf, -grace))
+  if (due.length > 0) out.push({ ...base, status: 'missed', expected: format(due[0], 'yyyy-MM-dd'), missedCount: due.length })
+
+  const prevDate = g.samples[1]?.date
+  if (!prevDate) return out
+  const prev = parseISO(prevDate)
+  const gap = differenceInCalendarDays(last, prev)
+
+  if (gap >= period * RESUMED_AFTER_PERIODS) {
+    out.push({ ...base, status: 'resumed', expected: format(addDays(prev, Math.round(period)), 'yyyy-MM-dd'), actual: g.samples[0].date })
+    return out
+  }
+
+  // late: the latest charge against the schedule as it stood after the previous one
+  const before = { ...g, samples: g.samples.slice(1) }
+  const expected = expectedDates(before, addDays(prev, grace + 1), last)[0]
+  if (expected && differenceInCalendarDays(last, expected) > grace) {
+    out.push({ ...base, status: 'late', expected: format(expected, 'yyyy-MM-dd'), actual: g.samples[0].date })
+  }
+  return out
+}
+
+// Newest row per account, and per upload for rows without an account
+export function latestDates(txs: Tx[]): Map<string, Date> {
+  const out = new Map<string, Date>()
+  for (const t of txs) {
+    const k = t.accountId ? `account:${t.accountId}` : `import:${t.importId ?? t.source ?? ''}`
+    const d = out.get(k)
+    if (!d || t.date > d) out.set(k, t.date)
+  }
+  return out
+}
+
+export function chargeAlerts(groups: RecurringGroup[], latest: Map<string, Date>): ChargeAlert[] {
+  return groups
+    .flatMap((g) => {
+      const asOf = latest.get(g.accountId ? `account:${g.accountId}` : `import:${g.importId ?? ''}`)
+      return asOf ? checkGroup(g, asOf) : []
+    })
+    .sort((a, b) => b.expected.localeCompare(a.expected))
+}
@@ -0,0 +1,69 @@
+import { addMonths, format, parse } from 'date-fns'
+
+// One zero-based plan per month, keyed 'yyyy-MM'. Categories marked for
+// rollover work like envelopes: what's left at the end of a month (or the
+// overspend) carries into the next one, starting from the first month that
+// has a plan.
+
+export type MonthBudget = {
+  income: number
+  plannedByCategory: Record<string, number> // category id -> amount
+}
+
+export type Budgets = {
+  months: Record<string, MonthBudget>
+  rollover: Record<string, boolean> // category id -> carries its balance forward
+}
+
+export function monthKey(d: Date) {
+  return format(d, 'yyyy-MM')
+}
+
+export const EMPTY_MONTH: MonthBudget = { income: 0, plannedByCategory: {} }
+
+function isMonthBudget(b: unknown): b is MonthBudget {
+  return typeof (b as MonthBudget)?.income === 'number' && typeof (b as MonthBudget)?.plannedByCategory === 'object'
+}
+
+// Accepts the current shape or the single plan saved before budgets were per
+// month, which becomes the plan of `month`
+export function loadBudgets(raw: unknown, month: Date): Budgets {
+  if (isMonthBudget(raw)) return { months: { [monthKey(month)]: raw }, rollover: {} }
+  const b = raw as Budgets | null
+  if (b && typeof b.months === 'object' && b.months) return { months: b.months, rollover: b.rollover ?? {} }
+  return { months: {}, rollover: {} }
+}
+
+export function budgetFor(b: Budgets, key: string): MonthBudget {
+  return b.months[key] ?? EMPTY_MONTH
+}
+
+export function updateMonth(b: Budgets, key: string, patch: (m: MonthBudget) => MonthBudget): Budgets {
+  return { ...b, months: { ...b.months, [key]: patch(budgetFor(b, key)) } }
+}
+
+// the latest month before `key` that has anything planned
+export function previousPlan(b: Budgets, key: string): string | null {
+  const earlier = Object.keys(b.months)
+    .filter((k) => k < key && Object.values(b.months[k].plannedByCategory).some((n) => n))
+    .sort()
+  return earlier[earlier.length - 1] ?? null
+}
+
+// Carried balance per rollover category at the start of `key`: every earlier
+// month's planned plus carry minus spent, from the first planned month on
+export function carryInto(b: Budgets, key: string, actualsByMonth: Map<string, Map<string, number>>): Map<string, number> {
+  const carry = new Map<string, number>()
+  const cats = Object.keys(b.rollover).filter((c) => b.rollover[c])
+  const first = Object.keys(b.months).sort()[0]
+  if (!first || cats.length === 0 || first >= key) return carry
+
+  const toDate = (k: string) => parse(k, 'yyyy-MM', new Date())
+  for (let m = toDate(first); monthKey(m) < key; m = addMonths(m, 1)) {
+    const k = monthKey(m)
+    const planned = budgetFor(b, k).plannedByCategory
+    const spent = actualsByMonth.get(k)
+    for (const c of cats) carry.set(c, (carry.get(c) ?? 0) + (Number(planned[c]) || 0) - (spent?.get(c) ?? 0))
+  }
+  return carry
+}
@@ -0,0 +1,195 @@
+import { differenceInCalendarDays } from 'date-fns'
+
+// Cadence detection. Instead of reading one median gap off a ladder, each
+// candidate period is walked through the dates: a gap of about k periods is a
+// match with k - 1 missed payments, a gap much shorter than a period is an
+// extra payment that gets skipped. The fit is the share of gaps that matched,
+// so one missed or extra payment lowers it a little instead of flipping the
+// cadence. Ties between close periods (every 4 weeks vs monthly, biweekly vs
+// twice a month) are settled by the anchor: a fixed weekday or fixed days of
+// the month.
+
+export type Cadence =
+  | 'weekly'
+  | 'biweekly'
+  | 'every4weeks'
+  | 'semimonthly'
+  | 'monthly'
+  | 'quarterly'
+  | 'semiannual'
+  | 'annual'
+  | 'unknown'
+
+export type CadenceAnchor = {
+  daysOfMonth?: number[] // 1..31; two days for semimonthly
+  weekday?: number // 0 = Sunday, for week-based cadences
+  monthsOfYear?: number[] // 1..12, for quarterly / semiannual / annual
+}
+
+export const CADENCE_LABELS: Record<Cadence, string> = {
+  weekly: 'weekly',
+  biweekly: 'every 2 weeks',
+  every4weeks: 'every 4 weeks',
+  semimonthly: 'twice a month',
+  monthly: 'monthly',
+  quarterly: 'quarterly',
+  semiannual: 'every 6 months',
+  annual: 'yearly',
+  unknown: 'irregular',
+}
+
+type Spec = { period: number; tolerance: number; anchor: 'weekday' | 'days' | 'months' }
+
+const SPECS: Record<Exclude<Cadence, 'unknown'>, Spec> = {
+  weekly: { period: 7, tolerance: 1, anchor: 'weekday' },
+  biweekly: { period: 14, tolerance: 2, anchor: 'weekday' },
+  every4weeks: { period: 28, tolerance: 1, anchor: 'weekday' },
+  semimonthly: { period: 365.25 / 24, tolerance: 3, anchor: 'days' },
+  monthly: { period: 365.25 / 12, tolerance: 5, anchor: 'days' },
+  quarterly: { period: 365.25 / 4, tolerance: 12, anchor: 'months' },
+  semiannual: { period: 365.25 / 2, tolerance: 18, anchor: 'months' },
+  annual: { period: 365.25, tolerance: 21, anchor: 'months' },
+}
+
+// average length in days, for turning any cadence into a monthly figure
+export function cadenceDays(c: Cadence): number | null {
+  return c === 'unknown' ? null : SPECS[c].period
+}
+
+// how far off schedule a charge can post and still count as on time
+export function cadenceTolerance(c: Cadence): number {
+  return c === 'unknown' ? 0 : SPECS[c].tolerance
+}
+
+export function monthlyEquivalent(amount: number, c: Cadence): number {
+  const days = cadenceDays(c)
+  return days ? (amount * (365.25 / 12)) / days : amount
+}
+
+const MIN_FIT = 0.6
+
+// how many periods apart two dates are, or 0 when they don't line up
+function periodsBetween(from: Date, to: Date, spec: Spec): number {
+  const d = differenceInCalendarDays(to, from)
+  const k = Math.round(d / spec.period)
+  return k >= 1 && Math.abs(d - k * spec.period) <= spec.tolerance * (k === 1 ? 1 : 1.5) ? k : 0
+}
+
+function fitPeriod(dates: Date[], spec: Spec): number {
+  let matched = 0
+  let penalty = 0
+  let prev = dates[0]
+  for (let i = 1; i < dates.length; i++) {
+    const k = periodsBetween(prev, dates[i], spec)
+    if (k > 0) {
+      matched++
+      penalty += k - 1 // missed payments
+      prev = dates[i]
+      continue
+    }
+    penalty++
+    // an extra payment if the schedule carries on from prev after it
+    const next = dates[i + 1]
+    const early = differenceInCalendarDays(dates[i], prev) < spec.period / 2
+    if (early || (next && periodsBetween(prev, next, spec) > 0)) continue
+    // otherwise the schedule shifted: measure from here on
+    prev = dates[i]
+  }
+  return matched + penalty === 0 ? 0 : matched / (matched + penalty)
+}
+
+function mode(nums: number[]): { value: number; share: number } {
+  const counts = new Map<number, number>()
+  for (const n of nums) counts.set(n, (counts.get(n) ?? 0) + 1)
+  let best = { value: nums[0], count: 0 }
+  for (const [value, count] of counts) if (count > best.count) best = { value, count }
+  return { value: best.value, share: best.count / nums.length }
+}
+
+// The middle value; with an even count the mean of the two middle ones, or
+// with `upper` the higher of them, so a day of month stays a day that was seen
+export function median(nums: number[], opts?: { upper?: boolean }): number {
+  if (nums.length === 0) return NaN
+  const a = [...nums].sort((x, y) => x - y)
+  const m = Math.floor(a.length / 2)
+  return a.length % 2 || opts?.upper ? a[m] : (a[m - 1] + a[m]) / 2
+}
+
+// days within 3 of an anchor day (wrapping around month end) count as on it
+function onDayShare(dates: Date[], days: number[]) {
+  const near = (a: number, b: number) => Math.min(Math.abs(a - b), 31 - Math.abs(a - b)) <= 3
+  return dates.filter((d) => days.some((x) => near(d.getDate(), x))).length / dates.length
+}
+
+// Split days of month into the two bands either side of the two widest gaps
+// (counting the wrap from month end to the 1st) and take each band's median.
+function twoBands(doms: number[]): number[] {
+  const days = [...new Set(doms)].sort((a, b) => a - b)
+  if (days.length < 2) return days
+  const gaps = days.map((d, i) => ({ at: i, size: i === days.length - 1 ? days[0] + 31 - d : days[i + 1] - d }))
+  const [g1, g2] = [...gaps].sort((a, b) => b.size - a.size)
+  const cut = [g1.at, g2.at].sort((a, b) => a - b)
+  const bandA = new Set(days.slice(cut[0] + 1, cut[1] + 1))
+  const a = doms.filter((d) => bandA.has(d))
+  const b = doms.filter((d) => !bandA.has(d))
+  return [median(a, { upper: true }), median(b, { upper: true })].sort((x, y) => x - y)
+}
+
+function anchorFor(dates: Date[], c: Exclude<Cadence, 'unknown'>): { anchor: CadenceAnchor; share: number } {
+  const spec = SPECS[c]
+  if (spec.anchor === 'weekday') {
+    const wd = mode(dates.map((d) => d.getDay()))
+    return { anchor: { weekday: wd.value }, share: wd.share }
+  }
+
+  if (c === 'semimonthly') {
+    const days = twoBands(dates.map((d) => d.getDate()))
+    return { anchor: { daysOfMonth: days }, share: days.length === 2 ? onDayShare(dates, days) : 0 }
+  }
+
+  const day = median(dates.map((d) => d.getDate()), { upper: true })
+  const share = onDayShare(dates, [day])
+  if (spec.anchor === 'days') return { anchor: { daysOfMonth: [day] }, share }
+
+  // month of year: the most common position within the cycle
+  const step = Math.round(spec.period / (365.25 / 12))
+  const first = mode(dates.map((d) => d.getMonth() % step)).value
+  const months: number[] = []
+  for (let m = first; m < 12; m += step) months.push(m + 1)
+  return { anchor: { daysOfMonth: [day], monthsOfYear: months }, share }
+}
+
+export function detectCadence(dates: Date[]): { cadence: Cadence; anchor: CadenceAnchor; fit: number } {
+  const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime())
+  if (sorted.length < 2) return { cadence: 'unknown', anchor: {}, fit: 0 }
+
+  let best: { cadence: Cadence; anchor: CadenceAnchor; fit: number; score: number } = { cadence: 'unknown', anchor: {}, fit: 0, score: 0 }
+  for (const c of Object.keys(SPECS) as Exclude<Cadence, 'unknown'>[]) {
+    const fit = fitPeriod(sorted, SPECS[c])
+    if (fit < MIN_FIT) continue
+    const { anchor, share } = anchorFor(sorted, c)
+    const score = fit * (0.7 + 0.3 * share)
+    if (score > best.score) best = { cadence: c, anchor, fit, score }
+  }
+  return { cadence: best.cadence, anchor: best.anchor, fit: best.fit }
+}
+
+const WEEKDAYS = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// 1st, 2nd, 23rd
+export function ordinal(n: number) {
+  const s = ['th', 'st', 'nd', 'rd']
+  const v = n % 100
+  return n + (s[(v - 20) % 10] || s[v] || s[0])
+}
+
+// "Fridays", "1st & 15th", "10th of Feb, May, Aug, Nov"
+export function anchorLabel(anchor: CadenceAnchor | undefined): string | null {
+  if (!anchor) return null
+  if (anchor.weekday != null) return WEEKDAYS[anchor.weekday]
+  const days = anchor.daysOfMonth?.map(ordinal).join(' & ')
+  if (!days) return null
+  if (!anchor.monthsOfYear?.length) return `Around the ${days}`
+  return `${days} of ${anchor.monthsOfYear.map((m) => MONTHS[m - 1]).join(', ')}`
+}
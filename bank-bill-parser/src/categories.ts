@@ -1,14 +1,87 @@
-export const DEFAULT_CATEGORIES = [
-  'Housing',
-  'Utilities',
-  'Food',
-  'Transportation',
-  'Insurance',
-  'Debt',
-  'Savings',
-  'Giving',
-  'Subscriptions',
-  'Other',
-] as const
-
-export type Category = (typeof DEFAULT_CATEGORIES)[number]
+// The budget's category tree. Categories are referenced by id everywhere
+// (merchant assignments, planned amounts), so a rename carries everything
+// with it. The starter categories use their original names as ids, which
+// keeps assignments and plans saved before the tree existed pointing at the
+// right category. Array order is display order; a category can have one level
+// of subcategories ("Utilities › Electric"). Archived categories drop out of
+// pickers and the plan but keep their assignments.
+
+export type Category = {
+  id: string
+  name: string
+  color: string // #rrggbb
+  parentId?: string // top-level category this one sits under
+  archived?: boolean
+}
+
+const STARTER: [string, string][] = [
+  ['Housing', '#2563eb'],
+  ['Utilities', '#0891b2'],
+  ['Food', '#16a34a'],
+  ['Transportation', '#ca8a04'],
+  ['Insurance', '#7c3aed'],
+  ['Debt', '#dc2626'],
+  ['Savings', '#059669'],
+  ['Giving', '#db2777'],
+  ['Subscriptions', '#ea580c'],
+  ['Other', '#64748b'],
+]
+
+export const DEFAULT_CATEGORIES: Category[] = STARTER.map(([name, color]) => ({ id: name, name, color }))
+
+// where uncategorized subscriptions and bills land in plan suggestions
+export const SUBSCRIPTIONS_CATEGORY = 'Subscriptions'
+export const FALLBACK_CATEGORY = 'Other'
+// where sinking-fund set-asides land
+export const SAVINGS_CATEGORY = 'Savings'
+
+export function newCategoryId() {
+  return `cat_${crypto.randomUUID()}`
+}
+
+// Saved trees are taken as-is; anything unusable falls back to the starters
+export function loadCategories(raw: unknown): Category[] {
+  if (!Array.isArray(raw)) return DEFAULT_CATEGORIES
+  const cats = raw.filter((c): c is Category => typeof c?.id === 'string' && typeof c?.name === 'string')
+  return cats.length > 0 ? cats : DEFAULT_CATEGORIES
+}
+
+// Parents followed by their children, in stored order. Children of an
+// archived parent are hidden along with it unless archived ones are included.
+export function orderedCategories(cats: Category[], opts?: { archived?: boolean }): { cat: Category; depth: number }[] {
+  const show = (c: Category) => opts?.archived || !c.archived
+  const ids = new Set(cats.map((c) => c.id))
+  const out: { cat: Category; depth: number }[] = []
+  for (const parent of cats) {
+    // a child whose parent is gone is shown at the top level
+    if ((parent.parentId && ids.has(parent.parentId)) || !show(parent)) continue
+    out.push({ cat: parent, depth: 0 })
+    for (const child of cats) if (child.parentId === parent.id && show(child)) out.push({ cat: child, depth: 1 })
+  }
+  return out
+}
+
+// "Utilities › Electric"
+export function categoryPath(cats: Category[], id: string | undefined): string {
+  const c = cats.find((x) => x.id === id)
+  if (!c) return id ?? ''
+  const parent = c.parentId ? cats.find((x) => x.id === c.parentId) : undefined
+  return parent ? `${parent.name} › ${c.name}` : c.name
+}
+
+export function categoryColor(cats: Category[], id: string | undefined): string | undefined {
+  return cats.find((x) => x.id === id)?.color
+}
+
+// Move a category past its previous / next sibling; its children move with it
+export function moveCategory(cats: Category[], id: string, by: -1 | 1): Category[] {
+  const c = cats.find((x) => x.id === id)
+  if (!c) return cats
+  const siblings = cats.filter((x) => (x.parentId ?? '') === (c.parentId ?? ''))
+  const target = siblings[siblings.indexOf(c) + by]
+  if (!target) return cats
+  const next = cats.filter((x) => x !== c)
+  const at = next.indexOf(target)
+  next.splice(by < 0 ? at : at + 1, 0, c)
+  return next
+}
@@ -0,0 +1,117 @@
+import { format } from 'date-fns'
+import type { MerchantOf, RecurringGroup, Tx } from './lib'
+import { monthKey } from './budgets'
+import { descriptionMatcher, type RuleMatch } from './rules'
+import { netAmount } from './refunds'
+
+// Every transaction gets a category, in this order: the category assigned to
+// its stream or merchant (on a recurring card), then the first categorization
+// rule that matches (description, amount range, account), then the fallback.
+// Only money out is categorized; what a row counts for comes from netAmount,
+// so transfers and refunds are already taken out.
+
+export type CategoryRule = {
+  id: string
+  match: RuleMatch
+  pattern: string // '' matches every description
+  minAmount?: number
+  maxAmount?: number
+  accountId?: string
+  categoryId: string
+}
+
+export type CategorySource = 'merchant' | 'rule' | 'fallback'
+
+export type Categorized = { categoryId: string; source: CategorySource }
+
+export function newCategoryRuleId() {
+  return `crule_${crypto.randomUUID()}`
+}
+
+// a stream's key ("netflix ~2") without its number
+function baseKey(key: string) {
+  return key.replace(/ ~.*$/, '')
+}
+
+export type StreamOf = (t: Tx, merchantKey: string) => string | undefined
+
+// Which of a merchant's streams a row belongs to: the one with that very
+// charge among its samples, else the one whose prices are closest
+export function streamResolver(groups: RecurringGroup[]): StreamOf {
+  const byParent = new Map<string, RecurringGroup[]>()
+  for (const g of groups) {
+    if (!g.parentKey) continue
+    byParent.set(g.parentKey, [...(byParent.get(g.parentKey) ?? []), g])
+  }
+  const prices = (g: RecurringGroup) => [g.typicalAmount, ...g.samples.map((s) => s.amount), ...(g.priceChanges ?? []).flatMap((c) => [c.from, c.to])]
+  const distance = (g: RecurringGroup, amount: number) => Math.min(...prices(g).map((p) => Math.abs(p - amount)))
+
+  return (t, merchantKey) => {
+    const streams = byParent.get(merchantKey)?.filter((g) => g.direction === t.direction)
+    if (!streams?.length) return undefined
+    const date = format(t.date, 'yyyy-MM-dd')
+    const exact = streams.find((g) => g.samples.some((s) => s.date === date && Math.abs(s.amount - t.amount) < 0.005))
+    if (exact) return exact.merchantKey
+    return streams.reduce((best, g) => (distance(g, t.amount) < distance(best, t.amount) ? g : best)).merchantKey
+  }
+}
+
+export function categorizer(opts: {
+  assignments: Record<string, string> // merchant or stream key -> category id
+  rules: CategoryRule[]
+  merchantOf: MerchantOf
+  streamOf?: StreamOf
+  fallback: string
+}): (t: Tx) => Categorized | null {
+  // for merchants not split into streams (any more): an assignment to the
+  // merchant itself beats one to any of its old streams
+  const byMerchant = new Map<string, string>()
+  for (const [key, id] of Object.entries(opts.assignments)) {
+    if (key === baseKey(key) || !byMerchant.has(baseKey(key))) byMerchant.set(baseKey(key), id)
+  }
+  const rules = opts.rules.flatMap((rule) => {
+    const test = rule.pattern.trim() ? descriptionMatcher(rule) : () => true
+    return test ? [{ rule, test }] : []
+  })
+
+  return (t) => {
+    if (t.direction !== 'out') return null
+    const key = opts.merchantOf(t.description).key
+    const stream = opts.streamOf?.(t, key)
+    const assigned = stream ? (opts.assignments[stream] ?? opts.assignments[key]) : byMerchant.get(key)
+    if (assigned) return { categoryId: assigned, source: 'merchant' }
+    const hit = rules.find(
+      ({ rule, test }) =>
+        (rule.minAmount == null || t.amount >= rule.minAmount) &&
+        (rule.maxAmount == null || t.amount <= rule.maxAmount) &&
+        (!rule.accountId || rule.accountId === t.accountId) &&
+        test(t.description),
+    )
+    if (hit) return { categoryId: hit.rule.categoryId, source: 'rule' }
+    return { categoryId: opts.fallback, source: 'fallback' }
+  }
+}
+
+// Spending per category over the given rows
+export function actualsByCategory(txs: Tx[], categoryOf: (t: Tx) => Categorized | null): Map<string, number> {
+  const out = new Map<string, number>()
+  for (const t of txs) {
+    const spent = netAmount(t)
+    if (spent <= 0) continue
+    const c = categoryOf(t)
+    if (c) out.set(c.categoryId, (out.get(c.categoryId) ?? 0) + spent)
+  }
+  return out
+}
+
+// Spending per category for every month with rows, keyed 'yyyy-MM'
+export function actualsByMonth(txs: Tx[], categoryOf: (t: Tx) => Categorized | null): Map<string, Map<string, number>> {
+  const byMonth = new Map<string, Tx[]>()
+  for (const t of txs) {
+    const k = monthKey(t.date)
+    const arr = byMonth.get(k) ?? []
+    arr.push(t)
+    byMonth.set(k, arr)
+  }
+  return new Map(Array.from(byMonth, ([k, rows]) => [k, actualsByCategory(rows, categoryOf)]))
+}
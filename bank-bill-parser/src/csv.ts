@@ -0,0 +1,142 @@
+import Papa from 'papaparse'
+
+// Bank CSVs are far from uniform: semicolon/tab delimiters, Windows-1252 or
+// UTF-16 encodings, BOMs, quoted headers with commas, and account-summary
+// lines above the real header row. We sniff all of that once, and both the
+// map-stage preview and the actual parse read the file with the same settings.
+
+export type CsvSettings = {
+  encoding: string // TextDecoder label
+  delimiter: string
+  headerRow: number // index of the header among non-empty rows; -1 = no header row
+}
+
+export type CsvSniff = {
+  settings: CsvSettings
+  hasBom: boolean
+  rows: string[][] // first rows as parsed, for picking the header row
+  headers: string[]
+  preview: Record<string, string>[]
+}
+
+export const DELIMITERS = [',', ';', '\t', '|'] as const
+
+const SAMPLE_ROWS = 40
+const PREVIEW_ROWS = 5
+
+async function decode(file: File, encoding?: string): Promise<{ text: string; encoding: string; hasBom: boolean }> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+
+  let detected = 'utf-8'
+  let hasBom = true
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) detected = 'utf-16le'
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) detected = 'utf-16be'
+  else if (!(bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf)) {
+    hasBom = false
+    // not valid UTF-8 → almost always a Windows "ANSI" export
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    } catch {
+      detected = 'windows-1252'
+    }
+  }
+
+  const enc = encoding || detected
+  const text = new TextDecoder(enc).decode(bytes).replace(/^\uFEFF/, '')
+  return { text, encoding: enc, hasBom }
+}
+
+function parseRows(text: string, delimiter: string, preview = 0): string[][] {
+  const res = Papa.parse<string[]>(text, { delimiter, skipEmptyLines: true, preview })
+  return res.data.map((r) => r.map((c) => String(c ?? '').trim()))
+}
+
+function modalWidth(rows: string[][]): { width: number; count: number } {
+  const counts = new Map<number, number>()
+  for (const r of rows) counts.set(r.length, (counts.get(r.length) ?? 0) + 1)
+  let best = { width: 0, count: 0 }
+  for (const [width, count] of counts) {
+    if (count > best.count || (count === best.count && width > best.width)) best = { width, count }
+  }
+  return best
+}
+
+function sniffDelimiter(text: string): string {
+  let best: { delimiter: string; score: number; width: number } = { delimiter: ',', score: -1, width: 0 }
+  for (const d of DELIMITERS) {
+    const { width, count } = modalWidth(parseRows(text, d, SAMPLE_ROWS))
+    const score = width > 1 ? count : 0
+    if (score > best.score || (score === best.score && width > best.width)) best = { delimiter: d, score, width }
+  }
+  return best.delimiter
+}
+
+const NUMERIC = /^[-+(]?\s*[$€£]?\s*[-+]?[\d.,\s]+\)?\s*(cr|dr)?$/i
+const DATE_LIKE = /^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}/
+
+function looksLikeHeader(row: string[]) {
+  const cells = row.filter(Boolean)
+  if (cells.length < Math.max(2, row.length / 2)) return false
+  return cells.every((c) => !NUMERIC.test(c) && !DATE_LIKE.test(c))
+}
+
+// The header is the first row that has the table's width, reads like labels
+// (no amounts or dates), and is followed by rows of the same width. Summary
+// lines above it usually have a different width or carry numbers.
+function sniffHeaderRow(rows: string[][]): number {
+  // preamble sits at the top, so take the table width from the lower half
+  const { width } = modalWidth(rows.slice(Math.floor(rows.length / 2)))
+  for (let i = 0; i < rows.length; i++) {
+    if (rows[i].length !== width || !looksLikeHeader(rows[i])) continue
+    const next = rows.slice(i + 1, i + 4)
+    if (next.length === 0 || next.every((r) => r.length === width)) return i
+  }
+  // nothing header-like: a headerless export, columns get generic names
+  return -1
+}
+
+// Blank or repeated header cells would collide as record keys
+function headerNames(row: string[] | undefined, width: number): string[] {
+  const seen = new Map<string, number>()
+  const out: string[] = []
+  for (let i = 0; i < width; i++) {
+    const base = row?.[i] || `Column ${i + 1}`
+    const n = (seen.get(base) ?? 0) + 1
+    seen.set(base, n)
+    out.push(n > 1 ? `${base} (${n})` : base)
+  }
+  return out
+}
+
+function toRecords(rows: string[][], headerRow: number): { headers: string[]; records: Record<string, string>[] } {
+  // only look at the sampled rows so the preview and the full parse agree
+  const width = Math.max(rows[headerRow]?.length ?? 0, modalWidth(rows.slice(headerRow + 1, SAMPLE_ROWS)).width)
+  const headers = headerNames(headerRow >= 0 ? rows[headerRow] : undefined, width)
+  const records = rows.slice(headerRow + 1).map((r) => {
+    const rec: Record<string, string> = {}
+    headers.forEach((h, i) => (rec[h] = r[i] ?? ''))
+    return rec
+  })
+  return { headers, records }
+}
+
+export async function sniffCsv(file: File, overrides?: Partial<CsvSettings>): Promise<CsvSniff> {
+  const { text, encoding, hasBom } = await decode(file, overrides?.encoding)
+  const delimiter = overrides?.delimiter || sniffDelimiter(text)
+  const rows = parseRows(text, delimiter, SAMPLE_ROWS)
+  const headerRow = Math.max(-1, Math.min(rows.length - 1, overrides?.headerRow ?? sniffHeaderRow(rows)))
+  const { headers, records } = toRecords(rows, headerRow)
+
+  return {
+    settings: { encoding, delimiter, headerRow },
+    hasBom,
+    rows,
+    headers,
+    preview: records.slice(0, PREVIEW_ROWS),
+  }
+}
+
+export async function readCsvRecords(file: File, settings: CsvSettings): Promise<{ headers: string[]; records: Record<string, string>[] }> {
+  const { text } = await decode(file, settings.encoding)
+  return toRecords(parseRows(text, settings.delimiter), settings.headerRow)
+}
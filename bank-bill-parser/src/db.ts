@@ -0,0 +1,139 @@
+import { withDirection, type RecurringGroup, type Tx } from './lib'
+import type { ImportRecord } from './imports'
+
+// Local transaction history in IndexedDB. Every parsed row (with its raw
+// columns) is kept per import, so uploads append to history and the app opens
+// with the last results instead of an empty upload card. Groups are derived
+// data, stored only so a reload doesn't have to re-run detection.
+
+const DB_NAME = 'bbp_history'
+
+// Schema changes are appended here, never edited: a browser at version N runs
+// every step from N onward, inside the upgrade transaction.
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: imports ledger, rows by import, derived groups
+  (db) => {
+    db.createObjectStore('imports', { keyPath: 'id' })
+    const txs = db.createObjectStore('txs', { autoIncrement: true })
+    txs.createIndex('importId', 'importId')
+    db.createObjectStore('groups', { autoIncrement: true })
+  },
+  // v2: rows keep a direction and a positive amount instead of a signed amount
+  (_db, tx) => {
+    const cursor = tx.objectStore('txs').openCursor()
+    cursor.onsuccess = () => {
+      const c = cursor.result
+      if (!c) return
+      const t = c.value as Tx
+      if (!t.direction) c.update({ ...t, ...withDirection(t.amount) })
+      c.continue()
+    }
+  },
+]
+
+export type History = {
+  imports: ImportRecord[]
+  txs: Tx[] // in upload order, before de-duplication
+  groups: RecurringGroup[]
+}
+
+let opening: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, MIGRATIONS.length)
+    req.onupgradeneeded = (e) => {
+      const tx = req.transaction!
+      for (let v = e.oldVersion; v < MIGRATIONS.length; v++) MIGRATIONS[v](req.result, tx)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => reject(new Error('History database is open in another tab with an older version.'))
+  })
+  // let a later call retry after a failed open
+  opening.catch(() => (opening = null))
+  return opening
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('History write was aborted.'))
+  })
+}
+
+export async function loadHistory(): Promise<History> {
+  const db = await openDb()
+  const tx = db.transaction(['imports', 'txs', 'groups'], 'readonly')
+  const [imports, txs, groups] = await Promise.all([
+    request<ImportRecord[]>(tx.objectStore('imports').getAll()),
+    request<Tx[]>(tx.objectStore('txs').getAll()),
+    request<RecurringGroup[]>(tx.objectStore('groups').getAll()),
+  ])
+  imports.sort((a, b) => a.importedAt.localeCompare(b.importedAt))
+  return { imports, txs, groups }
+}
+
+export async function appendImports(records: ImportRecord[], rows: Tx[]): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(['imports', 'txs'], 'readwrite')
+  for (const r of records) tx.objectStore('imports').put(r)
+  for (const t of rows) tx.objectStore('txs').add(t)
+  await done(tx)
+}
+
+export async function deleteImport(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(['imports', 'txs'], 'readwrite')
+  tx.objectStore('imports').delete(id)
+  const cursor = tx.objectStore('txs').index('importId').openKeyCursor(IDBKeyRange.only(id))
+  cursor.onsuccess = () => {
+    const c = cursor.result
+    if (!c) return
+    tx.objectStore('txs').delete(c.primaryKey)
+    c.continue()
+  }
+  await done(tx)
+}
+
+// reassign an earlier upload (record and rows) to another account
+export async function setImportAccount(id: string, accountId: string | undefined): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(['imports', 'txs'], 'readwrite')
+  const rec = tx.objectStore('imports').get(id)
+  rec.onsuccess = () => {
+    if (rec.result) tx.objectStore('imports').put({ ...rec.result, accountId })
+  }
+  const cursor = tx.objectStore('txs').index('importId').openCursor(IDBKeyRange.only(id))
+  cursor.onsuccess = () => {
+    const c = cursor.result
+    if (!c) return
+    c.update({ ...c.value, accountId })
+    c.continue()
+  }
+  await done(tx)
+}
+
+export async function saveGroups(groups: RecurringGroup[]): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction('groups', 'readwrite')
+  const store = tx.objectStore('groups')
+  store.clear()
+  for (const g of groups) store.add(g)
+  await done(tx)
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(['imports', 'txs', 'groups'], 'readwrite')
+  for (const name of ['imports', 'txs', 'groups']) tx.objectStore(name).clear()
+  await done(tx)
+}
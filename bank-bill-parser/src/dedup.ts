@@ -0,0 +1,77 @@
+import { format } from 'date-fns'
+import type { Tx } from './lib'
+
+// Overlapping exports ("last 90 days" every month) repeat the same rows. A row
+// is a duplicate when an earlier file already has the same fingerprint. Within
+// a single file nothing is merged: two identical coffees on the same day are
+// two coffees. Across files we keep as many copies as the file that had the
+// most of them, so the union of the files is kept and nothing is double-counted.
+
+export type DedupMerge = { file: string; duplicateOf: string; count: number }
+
+export type DedupReport = { merged: number; byFile: DedupMerge[] }
+
+function normalizeDescription(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export function txFingerprint(t: Tx): string {
+  // a refund of the same amount on the same day is not a repeat of the charge
+  const amount = `${t.direction === 'in' ? '-' : ''}${t.amount.toFixed(2)}`
+  // bank IDs survive description tweaks between exports, but aren't globally unique
+  if (t.id) return `id:${t.id}|${amount}`
+  return `${format(t.date, 'yyyy-MM-dd')}|${amount}|${normalizeDescription(t.description)}`
+}
+
+// Rows are grouped per upload (import id, which each file's rows get when
+// they're recorded, before this runs; else file name), in the order given:
+// earlier uploads keep their rows and later ones are reported as duplicates.
+export function dedupeTransactions(txs: Tx[]): { txs: Tx[]; report: DedupReport } {
+  const bySource = new Map<string, Tx[]>()
+  for (const t of txs) {
+    const k = t.importId ?? t.source ?? ''
+    const arr = bySource.get(k) ?? []
+    arr.push(t)
+    bySource.set(k, arr)
+  }
+
+  // fingerprint -> file that kept each copy so far
+  const owners = new Map<string, string[]>()
+  const merges = new Map<string, DedupMerge>()
+  const kept: Tx[] = []
+
+  for (const [src, rows] of bySource) {
+    const file = rows[0].source ?? ''
+    const seenInFile = new Map<string, number>()
+    const added: [string, string][] = []
+
+    for (const t of rows) {
+      const fp = txFingerprint(t)
+      const k = (seenInFile.get(fp) ?? 0) + 1
+      seenInFile.set(fp, k)
+
+      const prev = owners.get(fp) ?? []
+      if (k <= prev.length) {
+        const key = `${src}\n${prev[k - 1]}`
+        const m = merges.get(key) ?? { file, duplicateOf: prev[k - 1], count: 0 }
+        m.count++
+        merges.set(key, m)
+        continue
+      }
+      kept.push(t)
+      added.push([fp, file])
+    }
+
+    // register after the whole file so its own repeats aren't matched against themselves
+    for (const [fp, f] of added) owners.set(fp, [...(owners.get(fp) ?? []), f])
+  }
+
+  const byFile = Array.from(merges.values())
+  return {
+    txs: kept.sort((a, b) => a.date.getTime() - b.date.getTime()),
+    report: { merged: byFile.reduce((sum, m) => sum + m.count, 0), byFile },
+  }
+}
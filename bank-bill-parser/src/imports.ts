@@ -0,0 +1,56 @@
+import { format } from 'date-fns'
+import type { Tx } from './lib'
+
+// The import ledger: one record per uploaded file. Every parsed row carries
+// its record's id, so a single upload can be rolled back, and the content hash
+// lets us recognize a file that was already imported.
+
+export type ImportFormat = 'csv' | 'ofx' | 'pdf'
+
+export type ImportRecord = {
+  id: string
+  fileName: string
+  format: ImportFormat
+  hash: string // SHA-256 of the file bytes
+  rowCount: number
+  from?: string // yyyy-MM-dd of the earliest row
+  to?: string // yyyy-MM-dd of the latest row
+  profile?: string // import profile name, for CSVs mapped with one
+  accountId?: string // account the file was assigned to
+  importedAt: string // ISO timestamp
+}
+
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function newImportId() {
+  return `imp_${crypto.randomUUID()}`
+}
+
+// Stamp rows with a new import id (and the file's account) and describe them for the ledger
+export function recordImport(
+  rows: Tx[],
+  file: { fileName: string; format: ImportFormat; hash: string; profile?: string; accountId?: string },
+): ImportRecord {
+  const id = newImportId()
+  let min: Date | null = null
+  let max: Date | null = null
+  for (const t of rows) {
+    t.importId = id
+    t.accountId = file.accountId
+    delete t.fileIndex
+    if (!min || t.date < min) min = t.date
+    if (!max || t.date > max) max = t.date
+  }
+
+  return {
+    id,
+    ...file,
+    rowCount: rows.length,
+    from: min ? format(min, 'yyyy-MM-dd') : undefined,
+    to: max ? format(max, 'yyyy-MM-dd') : undefined,
+    importedAt: new Date().toISOString(),
+  }
+}
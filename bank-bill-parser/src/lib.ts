@@ -1,17 +1,45 @@
-import Papa from 'papaparse'
-import { differenceInCalendarDays, parse, parseISO } from 'date-fns'
+import { differenceInCalendarDays, format, parse } from 'date-fns'
+import { readCsvRecords, sniffCsv, type CsvSettings } from './csv'
+import { detectCadence, median, ordinal, type Cadence, type CadenceAnchor } from './cadence'
+import { detectPriceChanges, type PriceChange } from './priceChanges'
+import { guessLocale, parseLocaleAmount, parseLocaleDate, type DateOrder, type DecimalMark, type LocaleGuess } from './locale'
+
+export type Direction = 'out' | 'in'
 
 export type Tx = {
   date: Date
   description: string
-  amount: number // positive = money out (expense)
+  amount: number // always positive; direction says which way the money went
+  direction: Direction // 'out' = expense / charge, 'in' = deposit / refund / paycheck
+  id?: string // bank transaction ID (e.g. OFX FITID) when the source has one
+  source?: string // file the row came from
+  fileIndex?: number // position of that file among the upload's files of its format, until the rows are recorded
+  importId?: string // ledger record of the upload that brought it in
+  accountId?: string // account the file was assigned to at upload
+  transferId?: string // set on both sides of a payment / transfer between your own accounts
+  suggestedTransferId?: string // set on both sides of a likely transfer that isn't certain; still counted
+  refundId?: string // set on a refund and the charge it reverses
+  refunded?: number // on the charge: how much of it was refunded
   raw: Record<string, unknown>
 }
 
 export type ColumnMap = {
   date: string
   description: string
-  amount: string
+  amount: string // single signed amount column ('' when the file uses debit/credit columns)
+  debit?: string // money-out column for split layouts ("Debit", "Withdrawals")
+  credit?: string // money-in column for split layouts ("Credit", "Deposits")
+  type?: string // optional DR/CR indicator column for the single amount column
+}
+
+export type ExpenseSign = 'negative' | 'positive' | 'auto'
+
+export function isSplitLayout(map: ColumnMap) {
+  return Boolean(map.debit || map.credit)
+}
+
+export function hasAmountColumns(map: ColumnMap | null) {
+  return Boolean(map && (isSplitLayout(map) ? map.debit || map.credit : map.amount))
 }
 
 export function guessColumnMap(headers: string[]): ColumnMap | null {
@@ -25,84 +53,176 @@ export function guessColumnMap(headers: string[]): ColumnMap | null {
 
   const date = pick(['date', 'transaction date', 'posted date', 'posting date'])
   const description = pick(['description', 'name', 'merchant', 'payee', 'memo'])
-  const amount = pick(['amount', 'transaction amount', 'debit', 'withdrawal', 'charge'])
-
-  if (date && description && amount) return { date, description, amount }
+  const amount = pick(['amount', 'transaction amount'])
+  const debit = pick(['debit', 'debits', 'debit amount', 'withdrawal', 'withdrawals', 'withdrawal amount', 'charge', 'charges', 'money out'])
+  const credit = pick(['credit', 'credits', 'credit amount', 'deposit', 'deposits', 'deposit amount', 'payment', 'money in'])
+  // Chase checking calls its DEBIT/CREDIT column "Details"
+  const type = pick(['type', 'transaction type', 'dr/cr', 'cr/dr', 'debit/credit', 'credit/debit', 'transaction', 'details'])
+
+  if (!date || !description) return null
+  if (amount) return { date, description, amount, type }
+  if (debit && credit) return { date, description, amount: '', debit, credit, type }
+  if (debit) return { date, description, amount: debit, type }
   return null
 }
 
-function parseDateFlexible(v: unknown): Date | null {
+// Split an expense-positive signed amount into magnitude and direction
+export function withDirection(signed: number): { amount: number; direction: Direction } {
+  return { amount: Math.abs(signed), direction: signed < 0 ? 'in' : 'out' }
+}
+
+function parseMoney(v: unknown, mark: DecimalMark): { value: number; direction?: 'debit' | 'credit' } | null {
+  if (v == null || v === '') return null
+  return parseLocaleAmount(String(v), mark)
+}
+
+// type column values vary a lot: "DR", "Debit", "DEBIT_CARD", "ACH_CREDIT", "Sale"...
+const DEBIT_TYPES = /^(d|w)$|\b(dr|debit|withdrawal|purchase|sale|fee|check|atm)\b/
+const CREDIT_TYPES = /^c$|\b(cr|credit|deposit|refund|return)\b/
+
+// Work out the expense-positive amount for a row when the layout tells us the
+// direction (split debit/credit columns or a DR/CR type column). Returns
+// known=false when only the raw sign is available and the file-level
+// expenseSign heuristic has to decide.
+function rowAmount(row: Record<string, unknown>, map: ColumnMap, mark: DecimalMark): { amount: number; known: boolean } | null {
+  if (isSplitLayout(map)) {
+    const debit = map.debit ? parseMoney(row[map.debit], mark) : null
+    const credit = map.credit ? parseMoney(row[map.credit], mark) : null
+    if (debit && debit.value !== 0) return { amount: Math.abs(debit.value), known: true }
+    if (credit && credit.value !== 0) return { amount: -Math.abs(credit.value), known: true }
+    return null
+  }
+
+  const parsed = parseMoney(row[map.amount], mark)
+  if (!parsed) return null
+  const amt = parsed.value
+
+  // "45.00 CR" / "45.00 DR" carry their own direction
+  if (parsed.direction === 'debit') return { amount: Math.abs(amt), known: true }
+  if (parsed.direction === 'credit') return { amount: -Math.abs(amt), known: true }
+
+  if (map.type) {
+    const t = String(row[map.type] ?? '')
+      .trim()
+      .toLowerCase()
+      .replace(/[_\s-]+/g, ' ')
+    if (DEBIT_TYPES.test(t)) return { amount: Math.abs(amt), known: true }
+    if (CREDIT_TYPES.test(t)) return { amount: -Math.abs(amt), known: true }
+  }
+  return { amount: amt, known: false }
+}
+
+function parseDateFlexible(v: unknown, order: DateOrder, fmt?: string): Date | null {
   if (v == null) return null
   const s = String(v).trim()
   if (!s) return null
 
-  // try ISO first
-  const iso = parseISO(s)
-  if (!Number.isNaN(iso.getTime())) return iso
-
-  // common bank formats
-  const fmts = ['M/d/yyyy', 'M/d/yy', 'MM/dd/yyyy', 'MM/dd/yy']
-  for (const fmt of fmts) {
+  // an explicit format (from an import profile) wins; fall back to the file's date order
+  if (fmt) {
     const d = parse(s, fmt, new Date())
     if (!Number.isNaN(d.getTime())) return d
   }
-  return null
+
+  return parseLocaleDate(s, order)
 }
 
-export async function parseCsvFiles(files: File[], map: ColumnMap, opts?: { expenseSign?: 'negative' | 'positive' | 'auto' }): Promise<Tx[]> {
-  const expenseSign = opts?.expenseSign ?? 'auto'
-
-  const parseOne = (file: File) =>
-    new Promise<Tx[]>((resolve, reject) => {
-      Papa.parse<Record<string, unknown>>(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (res: Papa.ParseResult<Record<string, unknown>>) => {
-          try {
-            const rows = res.data
-            const txs: Tx[] = []
-            for (const row of rows) {
-              const d = parseDateFlexible(row[map.date])
-              const desc = String(row[map.description] ?? '').trim()
-              const amtRaw = row[map.amount]
-              const amt = amtRaw == null || amtRaw === '' ? NaN : Number(String(amtRaw).replace(/[$,]/g, ''))
-              if (!d || !desc || Number.isNaN(amt)) continue
-
-              // normalize to positive=expense
-              let out = amt
-              if (expenseSign === 'negative') out = -amt
-              else if (expenseSign === 'positive') out = amt
-              else {
-                // auto: assume negative amounts are expenses; if most are positive, invert
-                out = amt
-              }
-
-              txs.push({ date: d, description: desc, amount: out, raw: row })
-            }
-
-            if (expenseSign === 'auto') {
-              const negatives = txs.filter((t) => t.amount < 0).length
-              const positives = txs.filter((t) => t.amount > 0).length
-              if (positives > negatives) {
-                // most files export expenses as positive; keep as-is
-              } else {
-                // likely expenses are negative → flip
-                for (const t of txs) t.amount = Math.abs(t.amount)
-              }
-            } else {
-              for (const t of txs) t.amount = Math.abs(t.amount)
-            }
-
-            resolve(txs)
-          } catch (e) {
-            reject(e)
-          }
-        },
-        error: (err: Error) => reject(err),
-      })
-    })
+function amountColumns(map: ColumnMap) {
+  return (isSplitLayout(map) ? [map.debit, map.credit] : [map.amount]).filter((c): c is string => Boolean(c))
+}
 
-  const all = await Promise.all(files.map(parseOne))
+// Infer date order / decimal mark from every value in the mapped columns
+export function guessCsvLocale(rows: Record<string, unknown>[], map: ColumnMap): LocaleGuess {
+  const cols = amountColumns(map)
+  const dates = rows.map((r) => String(r[map.date] ?? ''))
+  const amounts = rows.flatMap((r) => cols.map((c) => String(r[c] ?? '')))
+  return guessLocale(dates, amounts)
+}
+
+export type CsvFileLocale = LocaleGuess & { file: string }
+
+// Per-file locale guesses for the map stage, read with the same settings the parse will use
+export async function inspectCsvLocales(files: File[], plans: CsvFilePlan[]): Promise<CsvFileLocale[]> {
+  return Promise.all(
+    files.map(async (file, i) => {
+      const { records } = await readCsvRecords(file, plans[i].csv ?? (await sniffCsv(file)).settings)
+      return { file: file.name, ...guessCsvLocale(records, plans[i].map) }
+    }),
+  )
+}
+
+export type Progress = (done: number, total: number) => void
+
+export type CsvParseOptions = {
+  expenseSign?: ExpenseSign
+  dateFormat?: string // date-fns pattern; empty = auto-detect
+  dateOrder?: DateOrder // overrides the per-file guess
+  decimalMark?: DecimalMark // overrides the per-file guess
+  csv?: CsvSettings // delimiter/encoding/header row as previewed; sniffed from the file when omitted
+}
+
+// How one CSV file is read. An upload can mix banks, so each file carries its
+// own columns and options (from the profile that matched it, or the map stage).
+export type CsvFilePlan = CsvParseOptions & {
+  map: ColumnMap
+  profile?: string // profile name, recorded with the import
+}
+
+const PROGRESS_EVERY = 2000
+
+// onProgress: rows converted so far, across all files
+export async function parseCsvFiles(files: File[], plans: CsvFilePlan[], onProgress?: Progress): Promise<Tx[]> {
+  // read every file first so progress is reported against the total row count
+  const read = await Promise.all(
+    files.map(async (file, index) => {
+      const settings = plans[index].csv ?? (await sniffCsv(file)).settings
+      return { file, index, rows: (await readCsvRecords(file, settings)).records }
+    }),
+  )
+  const total = read.reduce((n, r) => n + r.rows.length, 0)
+  let done = 0
+
+  const parseOne = (file: File, fileIndex: number, rows: Record<string, string>[]) => {
+    const { map, ...opts } = plans[fileIndex]
+    const expenseSign = opts.expenseSign ?? 'auto'
+    const guess = guessCsvLocale(rows, map)
+    const dateOrder = opts.dateOrder ?? guess.dateOrder
+    const decimalMark = opts.decimalMark ?? guess.decimalMark
+    const txs: Tx[] = []
+    // rows whose direction came only from the raw sign, with that raw amount
+    const unsigned: { t: Tx; raw: number }[] = []
+    for (const row of rows) {
+      if (++done % PROGRESS_EVERY === 0) onProgress?.(done, total)
+      const d = parseDateFlexible(row[map.date], dateOrder, opts.dateFormat)
+      const desc = String(row[map.description] ?? '').trim()
+      const amt = rowAmount(row, map, decimalMark)
+      if (!d || !desc || !amt) continue
+
+      // split debit/credit and DR/CR layouts are already positive=expense
+      if (amt.known) {
+        txs.push({ date: d, description: desc, ...withDirection(amt.amount), source: file.name, fileIndex, raw: row })
+        continue
+      }
+
+      const t: Tx = { date: d, description: desc, amount: Math.abs(amt.amount), direction: 'out', source: file.name, fileIndex, raw: row }
+      txs.push(t)
+      unsigned.push({ t, raw: amt.amount })
+    }
+
+    // auto: whichever sign most rows have is the expense sign (there are more
+    // charges than deposits in nearly every statement)
+    let expensesPositive = expenseSign === 'positive'
+    if (expenseSign === 'auto') {
+      const negatives = unsigned.filter((u) => u.raw < 0).length
+      const positives = unsigned.filter((u) => u.raw > 0).length
+      expensesPositive = positives > negatives
+    }
+    for (const u of unsigned) u.t.direction = withDirection(expensesPositive ? u.raw : -u.raw).direction
+
+    return txs
+  }
+
+  const all = read.map((r) => parseOne(r.file, r.index, r.rows))
+  onProgress?.(total, total)
   return all.flat().sort((a, b) => a.date.getTime() - b.date.getTime())
 }
 
@@ -116,11 +236,12 @@ export function normalizeMerchant(s: string): string {
     .trim()
 }
 
-function median(nums: number[]): number {
-  if (nums.length === 0) return NaN
-  const a = [...nums].sort((x, y) => x - y)
-  const m = Math.floor(a.length / 2)
-  return a.length % 2 ? a[m] : (a[m - 1] + a[m]) / 2
+export type MerchantOf = (description: string) => { key: string; merchant: string }
+
+// Default grouping when no merchant rule applies
+export const defaultMerchantOf: MerchantOf = (description) => {
+  const key = normalizeMerchant(description)
+  return { key, merchant: titleCase(key) }
 }
 
 function mad(nums: number[], med: number): number {
@@ -128,124 +249,297 @@ function mad(nums: number[], med: number): number {
   return median(dev)
 }
 
-export type RecurringKind = 'bill' | 'subscription' | 'unknown'
+export type RecurringKind = 'bill' | 'subscription' | 'income' | 'unknown'
 
 export type RecurringGroup = {
   merchant: string
-  merchantKey: string
+  merchantKey: string // decision/category key; per stream when a merchant has several
+  parentKey?: string // the merchant's own key, when this group is one of its streams
+  direction?: Direction // 'in' for deposits (payroll, benefits, transfers in); missing on groups saved before it existed
+  accountId?: string // account of the latest charge: where it's drawn from now
+  importId?: string // upload the latest charge came from
   count: number
-  cadence: 'monthly' | 'weekly' | 'biweekly' | 'annual' | 'unknown'
+  cadence: Cadence
+  anchor?: CadenceAnchor // when the cadence is known
+  cadenceFit?: number // 0..1, share of gaps that matched the cadence
   typicalAmount: number
   amountMad: number
   usualDayOfMonth?: number
   kind: RecurringKind
   confidence: number // 0..1
   samples: { date: string; amount: number; description: string }[]
+  priceChanges?: PriceChange[] // step changes over the whole history, oldest first
 }
 
 function clamp01(n: number) {
   return Math.max(0, Math.min(1, n))
 }
 
-function classifyRecurring(cadence: RecurringGroup['cadence'], typicalAmount: number, amountMad: number, count: number): { kind: RecurringKind; confidence: number } {
+const CADENCE_SCORE: Record<Cadence, number> = {
+  monthly: 0.45,
+  semimonthly: 0.4,
+  every4weeks: 0.4,
+  quarterly: 0.35,
+  semiannual: 0.35,
+  annual: 0.3,
+  weekly: 0.25,
+  biweekly: 0.25,
+  unknown: 0,
+}
+
+function classifyRecurring(direction: Direction, cadence: Cadence, fit: number, typicalAmount: number, amountMad: number, count: number): { kind: RecurringKind; confidence: number } {
   // Heuristics (since bank exports usually lack category):
-  // - Bills: typically monthly, higher $, low variance
-  // - Subscriptions: typically monthly, lower $, low variance
-  // - Unknown: anything else
+  // - Income: deposits on any known cycle (paychecks vary with hours and taxes)
+  // - Bills: monthly-or-longer cycle, higher $, low variance
+  // - Subscriptions: monthly-or-longer cycle, lower $, low variance
+  // - Unknown: anything else (weekly/biweekly charges are usually spending, not bills)
 
   const stable = amountMad <= Math.max(2, typicalAmount * 0.08)
-  const monthly = cadence === 'monthly'
+  const billLike = cadence !== 'unknown' && cadence !== 'weekly' && cadence !== 'biweekly'
 
   let kind: RecurringKind = 'unknown'
-  if (monthly && stable) {
+  if (direction === 'in') {
+    if (cadence !== 'unknown') kind = 'income'
+  } else if (billLike && stable) {
     if (typicalAmount >= 40) kind = 'bill'
     else kind = 'subscription'
   }
 
-  // confidence: based on stability + repeats + cadence match
-  const cadenceScore = monthly ? 0.45 : cadence === 'weekly' || cadence === 'biweekly' ? 0.25 : cadence === 'annual' ? 0.2 : 0
+  // confidence: based on stability + repeats + how well the cadence fits
+  const cadenceScore = CADENCE_SCORE[cadence] * fit
   const stabilityScore = stable ? 0.35 : 0.1
   const countScore = clamp01((count - 2) / 6) * 0.2
 
   return { kind, confidence: clamp01(cadenceScore + stabilityScore + countScore) }
 }
 
-export function detectRecurring(txs: Tx[], opts?: { minCount?: number; maxGroups?: number }) {
-  const minCount = opts?.minCount ?? 3
-  const maxGroups = opts?.maxGroups ?? 200
+// prioritize strong candidates
+function strength(g: RecurringGroup) {
+  return (g.cadence === 'unknown' ? 0 : 100) + Math.min(30, g.count * 5) - Math.min(30, g.amountMad)
+}
+
+// Strongest candidates first; the order analyzeRecurring returns
+export function rankGroups(groups: RecurringGroup[]): RecurringGroup[] {
+  return [...groups].sort((a, b) => strength(b) - strength(a))
+}
 
+// Every merchant seen at least twice, strongest candidates first. This is the
+// expensive part; the minimum-occurrences setting only filters its output
+// (filterRecurring), so changing it doesn't re-run detection. onGroups gets
+// the groups built since its last call, in detection order, at each progress
+// step and once more at the end (possibly empty).
+export function analyzeRecurring(
+  txs: Tx[],
+  opts?: { onProgress?: Progress; onGroups?: (groups: RecurringGroup[]) => void; merchantOf?: MerchantOf },
+): RecurringGroup[] {
+  const merchantOf = opts?.merchantOf ?? defaultMerchantOf
   const groups = new Map<string, Tx[]>()
-  for (const t of txs) {
-    const key = normalizeMerchant(t.description)
-    if (!key) continue
+  const names = new Map<string, string>()
+  for (let t of txs) {
+    // card payments and savings transfers aren't spending or income, and a
+    // refund nets out against its charge instead of looking like a deposit
+    if (t.transferId || (t.direction === 'in' && t.refundId)) continue
+    if (t.refunded) {
+      const left = t.amount - t.refunded
+      if (left < 0.005) continue
+      t = { ...t, amount: left }
+    }
+    const m = merchantOf(t.description)
+    if (!m.key) continue
+    // deposits from a payer are their own group, apart from charges by the same name
+    const key = t.direction === 'in' ? `in:${m.key}` : m.key
     const arr = groups.get(key) ?? []
     arr.push(t)
     groups.set(key, arr)
+    if (!names.has(key)) names.set(key, m.merchant)
   }
 
   const out: RecurringGroup[] = []
+  let done = 0
+  let sent = 0
+  const flush = () => {
+    opts?.onGroups?.(out.slice(sent))
+    sent = out.length
+  }
 
   for (const [key, arr] of groups) {
-    if (arr.length < minCount) continue
+    if (++done % 200 === 0) {
+      opts?.onProgress?.(done, groups.size)
+      if (out.length > sent) flush()
+    }
+    if (arr.length < 2) continue
     arr.sort((a, b) => a.date.getTime() - b.date.getTime())
 
-    const deltas: number[] = []
-    for (let i = 1; i < arr.length; i++) {
-      deltas.push(differenceInCalendarDays(arr[i].date, arr[i - 1].date))
+    const merchant = names.get(key) ?? titleCase(key)
+    const streams = splitStreams(arr)
+    if (streams.length === 1) {
+      out.push(buildGroup(key, merchant, arr))
+      continue
     }
-    const medDelta = median(deltas)
-
-    const cadence =
-      Math.abs(medDelta - 30) <= 5
-        ? 'monthly'
-        : Math.abs(medDelta - 7) <= 1
-          ? 'weekly'
-          : Math.abs(medDelta - 14) <= 2
-            ? 'biweekly'
-            : Math.abs(medDelta - 365) <= 20
-              ? 'annual'
-              : 'unknown'
-
-    const amounts = arr.map((t) => t.amount)
-    const typicalAmount = median(amounts)
-    const amountMad = mad(amounts, typicalAmount)
-
-    const doms = arr.map((t) => t.date.getDate())
-    const usualDayOfMonth = cadence === 'monthly' ? Math.round(median(doms)) : undefined
-
-    const merchant = titleCase(key)
-
-    const { kind, confidence } = classifyRecurring(cadence, typicalAmount, amountMad, arr.length)
-
-    out.push({
-      merchant,
-      merchantKey: key,
-      count: arr.length,
-      cadence,
-      typicalAmount,
-      amountMad,
-      usualDayOfMonth,
-      kind,
-      confidence,
-      samples: arr
-        .slice(-8)
-        .reverse()
-        .map((t) => ({ date: t.date.toISOString().slice(0, 10), amount: t.amount, description: t.description })),
+
+    // Streams are numbered in the order they started, so a stream keeps its
+    // key (and its decision, category and fund) through a price change
+    const byStart = [...streams].sort((a, b) => a[0].date.getTime() - b[0].date.getTime() || a[0].amount - b[0].amount)
+    const built = byStart.map((s) => buildGroup(key, merchant, s))
+    built.forEach((g, i) => {
+      // same price twice (two identical plans) → tell them apart by billing day
+      const twin = built.some((o) => o !== g && Math.round(o.typicalAmount) === Math.round(g.typicalAmount))
+      const day = twin ? phaseDay(g) : undefined
+      g.parentKey = key
+      g.merchantKey = `${key} ~${i + 1}`
+      g.merchant = `${merchant} · $${g.typicalAmount.toFixed(2)}${day ? ` · ${ordinal(day)}` : ''}`
+      out.push(g)
     })
+  }
+  opts?.onProgress?.(groups.size, groups.size)
+  flush()
+
+  return rankGroups(out)
+}
 
-    if (out.length >= maxGroups) break
+// Groups stay in analyzeRecurring's order, so this is just a filter
+export function filterRecurring(groups: RecurringGroup[], opts?: { minCount?: number; maxGroups?: number }) {
+  const minCount = opts?.minCount ?? 3
+  const maxGroups = opts?.maxGroups ?? 200
+  return groups.filter((g) => g.count >= minCount).slice(0, maxGroups)
+}
+
+export function detectRecurring(txs: Tx[], opts?: { minCount?: number; maxGroups?: number; merchantOf?: MerchantOf }) {
+  return filterRecurring(analyzeRecurring(txs, { merchantOf: opts?.merchantOf }), opts)
+}
+
+function cadenceOf(txs: Tx[]): Cadence {
+  return detectCadence(txs.map((t) => t.date)).cadence
+}
+
+function buildGroup(key: string, merchant: string, arr: Tx[]): RecurringGroup {
+  const { cadence, anchor, fit } = detectCadence(arr.map((t) => t.date))
+
+  const amounts = arr.map((t) => t.amount)
+  const typicalAmount = median(amounts)
+  const amountMad = mad(amounts, typicalAmount)
+
+  const usualDayOfMonth = cadence === 'monthly' ? anchor.daysOfMonth?.[0] : undefined
+
+  const direction = arr[0].direction
+  const { kind, confidence } = classifyRecurring(direction, cadence, fit, typicalAmount, amountMad, arr.length)
+
+  return {
+    merchant,
+    merchantKey: key,
+    direction,
+    accountId: arr[arr.length - 1].accountId,
+    importId: arr[arr.length - 1].importId,
+    count: arr.length,
+    cadence,
+    anchor: cadence === 'unknown' ? undefined : anchor,
+    cadenceFit: fit,
+    priceChanges: detectPriceChanges(arr, cadence),
+    typicalAmount,
+    amountMad,
+    usualDayOfMonth,
+    kind,
+    confidence,
+    samples: arr
+      .slice(-8)
+      .reverse()
+      .map((t) => ({ date: format(t.date, 'yyyy-MM-dd'), amount: t.amount, description: t.description })),
   }
+}
 
-  out.sort((a, b) => {
-    // prioritize strong candidates
-    const score = (g: RecurringGroup) =>
-      (g.cadence === 'unknown' ? 0 : 100) + Math.min(30, g.count * 5) - Math.min(30, g.amountMad)
-    return score(b) - score(a)
-  })
+// Two charges belong to the same price tier when they're within ~10% (at least $2)
+function clusterByAmount(arr: Tx[]): Tx[][] {
+  const sorted = [...arr].sort((a, b) => a.amount - b.amount)
+  const out: Tx[][] = []
+  for (const t of sorted) {
+    const last = out[out.length - 1]
+    const prev = last?.[last.length - 1]
+    if (prev && t.amount - prev.amount <= Math.max(2, Math.abs(prev.amount) * 0.1)) last.push(t)
+    else out.push([t])
+  }
+  return out.map((c) => c.sort((a, b) => a.date.getTime() - b.date.getTime()))
+}
+
+// A price change looks like two amount tiers one after the other in time;
+// chain those into one stream (next tier starting within ~1.5 periods).
+function mergeSequential(clusters: Tx[][]): Tx[][] {
+  const byStart = [...clusters].sort((a, b) => a[0].date.getTime() - b[0].date.getTime())
+  const out: Tx[][] = []
+  for (const c of byStart) {
+    const start = c[0].date
+    let best: Tx[] | undefined
+    for (const s of out) {
+      const end = s[s.length - 1].date
+      if (end >= start || differenceInCalendarDays(start, end) > Math.max(45, 1.5 * medianGap(s))) continue
+      if (!best || end > best[best.length - 1].date) best = s
+    }
+    if (best) best.push(...c)
+    else out.push([...c])
+  }
+  return out
+}
 
+function medianGap(arr: Tx[]) {
+  const deltas: number[] = []
+  for (let i = 1; i < arr.length; i++) deltas.push(differenceInCalendarDays(arr[i].date, arr[i - 1].date))
+  return deltas.length > 0 ? median(deltas) : 0
+}
+
+// Charges on day bands more than 5 days apart (wrapping around month end) are
+// separate streams; a stream that drifts through the month chains into one band.
+function clusterByPhase(arr: Tx[]): Tx[][] {
+  const days = [...new Set(arr.map((t) => t.date.getDate()))].sort((a, b) => a - b)
+  if (days.length < 2) return [arr]
+  const gap = (a: number, b: number) => b - a
+  // start the bands after the widest gap, so the wrap-around joins 30th and 2nd
+  let widest = days.length - 1
+  let widestGap = days[0] + 31 - days[days.length - 1]
+  for (let i = 0; i < days.length - 1; i++) {
+    if (gap(days[i], days[i + 1]) > widestGap) {
+      widestGap = gap(days[i], days[i + 1])
+      widest = i
+    }
+  }
+  const ordered = [...days.slice(widest + 1), ...days.slice(0, widest + 1)]
+  const band = new Map<number, number>()
+  let b = 0
+  ordered.forEach((d, i) => {
+    if (i > 0 && (d - ordered[i - 1] + 31) % 31 > 5) b++
+    band.set(d, b)
+  })
+  const out: Tx[][] = Array.from({ length: b + 1 }, () => [])
+  for (const t of arr) out[band.get(t.date.getDate())!].push(t)
   return out
 }
 
+function monthsOf(arr: Tx[]) {
+  return new Set(arr.map((t) => t.date.getFullYear() * 12 + t.date.getMonth()))
+}
+
+// Split a merchant's charges into recurring streams (two plans, separate
+// policies). Only accepted when every stream has a cadence of its own and
+// runs alongside another one; otherwise it's one irregular merchant (e.g. a
+// utility whose bill is higher in winter).
+function splitStreams(arr: Tx[]): Tx[][] {
+  const byAmount = mergeSequential(clusterByAmount(arr))
+  const streams = byAmount.flatMap((c) => {
+    // 1st-and-15th style billing is one twice-a-month stream, not two monthly ones
+    if (cadenceOf(c) === 'semimonthly') return [c]
+    const phases = clusterByPhase(c).filter((p) => p.length >= 2)
+    return phases.length > 1 && phases.every((p) => cadenceOf(p) === 'monthly') ? phases : [c]
+  })
+  const recurring = streams.filter((s) => s.length >= 2)
+  if (recurring.length < 2 || recurring.some((s) => cadenceOf(s) === 'unknown')) return [arr]
+
+  const months = recurring.map(monthsOf)
+  const concurrent = months.every((m, i) => months.some((o, j) => j !== i && [...m].filter((x) => o.has(x)).length >= m.size / 2))
+  return concurrent ? recurring.map((s) => s.sort((a, b) => a.date.getTime() - b.date.getTime())) : [arr]
+}
+
+function phaseDay(g: RecurringGroup) {
+  return g.usualDayOfMonth ?? Math.round(median(g.samples.map((s) => Number(s.date.slice(8, 10)))))
+}
+
 function titleCase(s: string) {
   return s
     .split(' ')
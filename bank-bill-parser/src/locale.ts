@@ -0,0 +1,140 @@
+import { isValid, parse, parseISO } from 'date-fns'
+
+// Dates and amounts are read per file: the date order and decimal mark are
+// inferred from every value in the column, not guessed row by row, so a file
+// can't mix 01/02 read as January 2nd with 13/02 read as February 13th.
+
+export type DateOrder = 'MDY' | 'DMY' | 'YMD'
+export type DecimalMark = '.' | ','
+
+export type LocaleGuess = {
+  dateOrder: DateOrder
+  dateAmbiguous: boolean
+  decimalMark: DecimalMark
+  decimalAmbiguous: boolean
+}
+
+const NUMERIC_DATE = /^(\d{1,4})[/.\-\s](\d{1,2})[/.\-\s](\d{1,4})(?:$|[\sT])/
+const NAMED_FORMATS = ['MMM d, yyyy', 'MMMM d, yyyy', 'MMM d yyyy', 'd MMM yyyy', 'd MMMM yyyy', 'd-MMM-yyyy', 'd-MMM-yy', 'dd MMM yy']
+
+export function inferDateOrder(values: string[]): { order: DateOrder; ambiguous: boolean } {
+  let mdy = 0
+  let dmy = 0
+  let ymd = 0
+  let dotted = 0
+  for (const v of values) {
+    const m = v.trim().match(NUMERIC_DATE)
+    if (!m) continue
+    if (m[1].length === 4) {
+      ymd++
+      continue
+    }
+    const a = Number(m[1])
+    const b = Number(m[2])
+    if (a > 12 && b <= 12) dmy++
+    else if (b > 12 && a <= 12) mdy++
+    if (v.includes('.')) dotted++
+  }
+
+  if (ymd > 0 && mdy === 0 && dmy === 0) return { order: 'YMD', ambiguous: false }
+  if (dmy > 0 && mdy === 0) return { order: 'DMY', ambiguous: false }
+  if (mdy > 0 && dmy === 0) return { order: 'MDY', ambiguous: false }
+  if (mdy > 0 && dmy > 0) return { order: dmy > mdy ? 'DMY' : 'MDY', ambiguous: true }
+  // every day was <= 12: dotted dates are almost always European
+  return { order: dotted > 0 ? 'DMY' : 'MDY', ambiguous: values.some((v) => NUMERIC_DATE.test(v.trim())) }
+}
+
+export function inferDecimalMark(values: string[]): { mark: DecimalMark; ambiguous: boolean } {
+  let dot = 0
+  let comma = 0
+  // "1,234" / "1.234" only hint at a thousands separator
+  let weakDot = 0
+  let weakComma = 0
+
+  for (const raw of values) {
+    const s = raw.replace(/[^\d.,]/g, '')
+    const lastDot = s.lastIndexOf('.')
+    const lastComma = s.lastIndexOf(',')
+    if (lastDot >= 0 && lastComma >= 0) {
+      if (lastDot > lastComma) dot++
+      else comma++
+    } else if (lastComma >= 0) {
+      if (/,\d{1,2}$/.test(s)) comma++
+      else if (/,\d{3}$/.test(s)) weakDot++
+    } else if (lastDot >= 0) {
+      if (/\.\d{1,2}$/.test(s)) dot++
+      else if (/\.\d{3}$/.test(s)) weakComma++
+    }
+  }
+
+  if (dot > 0 && comma === 0) return { mark: '.', ambiguous: false }
+  if (comma > 0 && dot === 0) return { mark: ',', ambiguous: false }
+  if (dot > 0 && comma > 0) return { mark: comma > dot ? ',' : '.', ambiguous: true }
+  if (weakComma > weakDot) return { mark: ',', ambiguous: true }
+  return { mark: '.', ambiguous: weakDot > 0 }
+}
+
+export function guessLocale(dates: string[], amounts: string[]): LocaleGuess {
+  const d = inferDateOrder(dates)
+  const n = inferDecimalMark(amounts)
+  return { dateOrder: d.order, dateAmbiguous: d.ambiguous, decimalMark: n.mark, decimalAmbiguous: n.ambiguous }
+}
+
+export function parseLocaleDate(s: string, order: DateOrder): Date | null {
+  const v = s.trim()
+  if (!v) return null
+
+  const m = v.match(NUMERIC_DATE)
+  if (m) {
+    let [y, mo, d] = [0, 0, 0]
+    if (m[1].length === 4 || order === 'YMD') [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])]
+    else if (order === 'DMY') [d, mo, y] = [Number(m[1]), Number(m[2]), Number(m[3])]
+    else [mo, d, y] = [Number(m[1]), Number(m[2]), Number(m[3])]
+    if (y < 100) y += y < 70 ? 2000 : 1900
+
+    const date = new Date(y, mo - 1, d)
+    // reject rollovers like 02/30 → March 2nd
+    if (date.getFullYear() === y && date.getMonth() === mo - 1 && date.getDate() === d) return date
+    return null
+  }
+
+  for (const fmt of NAMED_FORMATS) {
+    const d = parse(v, fmt, new Date())
+    if (isValid(d)) return d
+  }
+  const iso = parseISO(v)
+  return isValid(iso) ? iso : null
+}
+
+// Handles "$1,234.56", "1.234,56 €", "(45.00)", "45.00-", "45.00 CR", "-1 234,56".
+// direction is set when the value itself says debit/credit.
+export function parseLocaleAmount(s: string, mark: DecimalMark): { value: number; direction?: 'debit' | 'credit' } | null {
+  let v = s.trim()
+  if (!v) return null
+
+  let direction: 'debit' | 'credit' | undefined
+  const suffix = v.match(/\s*\b(CR|DR)\.?$/i)
+  if (suffix) {
+    direction = suffix[1].toUpperCase() === 'CR' ? 'credit' : 'debit'
+    v = v.slice(0, v.length - suffix[0].length)
+  }
+
+  let negative = false
+  if (/^\(.*\)$/.test(v)) {
+    negative = true
+    v = v.slice(1, -1)
+  }
+  if (/-\s*$/.test(v)) {
+    negative = !negative
+    v = v.replace(/-\s*$/, '')
+  }
+  if (/^\s*[^\d]*-/.test(v)) negative = !negative
+
+  let digits = v.replace(/[^\d.,]/g, '')
+  if (!/\d/.test(digits)) return null
+  digits = mark === ',' ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '')
+
+  const n = Number(digits)
+  if (!Number.isFinite(n)) return null
+  return { value: negative ? -n : n, direction }
+}
@@ -0,0 +1,92 @@
+import { withDirection, type Tx } from './lib'
+
+// OFX 1.x is SGML (leaf elements have no closing tag), OFX 2.x is XML. QFX is
+// Quicken's OFX with a few extra tags. Aggregates like <STMTTRN> are closed in
+// both flavors, so we split on those and read leaf values up to the next tag.
+
+export function isOfxFile(file: File) {
+  return /\.(ofx|qfx)$/i.test(file.name)
+}
+
+function leaf(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  const v = m?.[1].trim()
+  return v ? decodeEntities(v) : undefined
+}
+
+function aggregates(text: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')
+  return Array.from(text.matchAll(re), (m) => m[1])
+}
+
+function decodeEntities(s: string) {
+  return s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+// DTPOSTED looks like 20260131, 20260131120000 or 20260131120000.000[-5:EST].
+// Keep the calendar date only; the time zone rarely matters for bills.
+function parseOfxDate(s: string | undefined): Date | null {
+  const m = s?.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!m) return null
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]))
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+// The spec allows either '.' or ',' as the decimal mark ("-15,49")
+function parseOfxAmount(s: string | undefined): number {
+  if (!s) return NaN
+  const v = /^[+-]?\d+,\d{1,2}$/.test(s) ? s.replace(',', '.') : s.replace(/,/g, '')
+  return Number(v)
+}
+
+export function parseOfx(text: string, source?: string): Tx[] {
+  const body = text.slice(Math.max(0, text.search(/<OFX>/i)))
+  const txs: Tx[] = []
+
+  const stmts = [...aggregates(body, 'STMTRS'), ...aggregates(body, 'CCSTMTRS')]
+  if (stmts.length === 0) stmts.push(body)
+
+  for (const stmt of stmts) {
+    const acctId = leaf(stmt, 'ACCTID')
+
+    for (const block of aggregates(stmt, 'STMTTRN')) {
+      const date = parseOfxDate(leaf(block, 'DTPOSTED') ?? leaf(block, 'DTUSER'))
+      const amt = parseOfxAmount(leaf(block, 'TRNAMT'))
+      const payee = aggregates(block, 'PAYEE')[0]
+      const description = leaf(block, 'NAME') ?? (payee ? leaf(payee, 'NAME') : undefined) ?? leaf(block, 'MEMO') ?? ''
+      if (!date || !description || Number.isNaN(amt)) continue
+
+      txs.push({
+        date,
+        description,
+        // OFX amounts are signed from the account holder's side: negative = money out
+        ...withDirection(-amt),
+        id: leaf(block, 'FITID'),
+        source,
+        raw: {
+          TRNTYPE: leaf(block, 'TRNTYPE'),
+          DTPOSTED: leaf(block, 'DTPOSTED'),
+          TRNAMT: leaf(block, 'TRNAMT'),
+          FITID: leaf(block, 'FITID'),
+          CHECKNUM: leaf(block, 'CHECKNUM'),
+          NAME: leaf(block, 'NAME'),
+          MEMO: leaf(block, 'MEMO'),
+          ACCTID: acctId,
+        },
+      })
+    }
+  }
+
+  return txs
+}
+
+export async function parseOfxFiles(files: File[]): Promise<Tx[]> {
+  const all = await Promise.all(files.map(async (f, fileIndex) => parseOfx(await f.text(), f.name).map((t) => ({ ...t, fileIndex }))))
+  return all.flat().sort((a, b) => a.date.getTime() - b.date.getTime())
+}
@@ -0,0 +1,93 @@
+import { addDays, endOfMonth, format, parseISO, startOfMonth } from 'date-fns'
+import type { RecurringGroup } from './lib'
+import { scheduleRange, type ShiftRule } from './schedule'
+
+// Planning by paycheck instead of by month. Paydays come from the recurring
+// deposits that were found, or from a schedule entered by hand; each bill is
+// covered by the last paycheck that lands before its due date, so a pay
+// period runs from one payday up to and including the next one. A period is
+// short when its bills add up to more than its paycheck.
+
+export type PayCadence = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly'
+
+export const PAY_CADENCE_LABELS: Record<PayCadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  semimonthly: '15th and last day',
+  monthly: 'Monthly',
+}
+
+export type PaySchedule =
+  | { mode: 'detected' } // every recurring deposit
+  | { mode: 'manual'; cadence: PayCadence; payday: string; amount: number } // payday: any past or upcoming one, yyyy-MM-dd
+
+export const DEFAULT_PAY_SCHEDULE: PaySchedule = { mode: 'detected' }
+
+export type Paycheck = { date: Date; amount: number; sources: string[] }
+
+export type PayPeriod<G extends RecurringGroup = RecurringGroup> = {
+  paycheck: Paycheck
+  next: Date | null // the following payday; bills due on it still fall in this period
+  bills: { date: Date; group: G }[]
+  billsTotal: number
+  leftover: number
+  short: boolean
+}
+
+// A manual schedule as a group, so its paydays come from the same scheduler
+// as every charge
+function scheduleGroup(s: Extract<PaySchedule, { mode: 'manual' }>): RecurringGroup {
+  const day = parseISO(s.payday).getDate()
+  return {
+    merchant: 'Paycheck',
+    merchantKey: 'paycheck',
+    direction: 'in',
+    count: 1,
+    cadence: s.cadence,
+    anchor: { daysOfMonth: s.cadence === 'semimonthly' ? [15, 31] : [day] },
+    typicalAmount: s.amount,
+    amountMad: 0,
+    kind: 'income',
+    confidence: 1,
+    samples: [{ date: s.payday, amount: s.amount, description: 'Paycheck' }],
+  }
+}
+
+// Paydays within [from, to]; deposits landing on the same day are one paycheck
+export function paychecks(schedule: PaySchedule, income: RecurringGroup[], from: Date, to: Date, opts?: { shift?: ShiftRule }): Paycheck[] {
+  const groups = schedule.mode === 'manual' ? [scheduleGroup(schedule)] : income
+  const byDay = new Map<string, Paycheck>()
+  for (const { date, group } of scheduleRange(groups, from, to, opts)) {
+    const key = format(date, 'yyyy-MM-dd')
+    const p = byDay.get(key) ?? { date, amount: 0, sources: [] }
+    p.amount += group.typicalAmount
+    p.sources.push(group.merchant)
+    byDay.set(key, p)
+  }
+  return Array.from(byDay.values())
+}
+
+// The pay periods starting in `month`, with the bills each one covers
+export function payPeriods<G extends RecurringGroup>(
+  schedule: PaySchedule,
+  income: RecurringGroup[],
+  bills: G[],
+  month: Date,
+  opts?: { shift?: ShiftRule },
+): PayPeriod<G>[] {
+  // look far enough past the month to find the payday after its last one
+  const checks = paychecks(schedule, income, startOfMonth(month), addDays(endOfMonth(month), 35), opts)
+  const starting = checks.filter((p) => p.date <= endOfMonth(month))
+  if (starting.length === 0) return []
+
+  const after = checks[starting.length]
+  const due = scheduleRange(bills, addDays(starting[0].date, 1), after?.date ?? endOfMonth(month), opts)
+
+  return starting.map((paycheck, i) => {
+    const next = checks[i + 1]?.date ?? null
+    const covered = due.filter((d) => d.date > paycheck.date && (!next || d.date <= next))
+    const billsTotal = covered.reduce((sum, d) => sum + d.group.typicalAmount, 0)
+    const leftover = paycheck.amount - billsTotal
+    return { paycheck, next, bills: covered, billsTotal, leftover, short: leftover < -0.005 }
+  })
+}
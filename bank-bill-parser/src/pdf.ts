@@ -0,0 +1,203 @@
+import { format } from 'date-fns'
+import { withDirection, type Tx } from './lib'
+
+// PDF statements are parsed entirely in-browser with PDF.js. We rebuild text
+// lines from positioned text items, then pull transaction rows out of them.
+// The result is only a draft: the user reviews/corrects rows before import.
+
+export type PdfLine = { page: number; text: string }
+
+export type PdfRow = {
+  date: string // yyyy-MM-dd
+  description: string
+  amount: number // positive = money out (expense)
+  include: boolean
+  source: string
+  fileIndex?: number // position of the statement among the uploaded PDFs
+}
+
+export function isPdfFile(file: File) {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name)
+}
+
+export async function extractPdfLines(file: File): Promise<PdfLine[]> {
+  const pdfjs = await import('pdfjs-dist')
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise
+  const lines: PdfLine[] = []
+
+  try {
+    for (let p = 1; p <= doc.numPages; p++) {
+      const page = await doc.getPage(p)
+      const content = await page.getTextContent()
+
+      // bucket items by baseline (y), then read each bucket left to right
+      const rows: { y: number; items: { x: number; str: string }[] }[] = []
+      for (const it of content.items) {
+        if (!('str' in it) || !it.str.trim()) continue
+        const x = Number(it.transform[4])
+        const y = Number(it.transform[5])
+        let row = rows.find((r) => Math.abs(r.y - y) <= 2)
+        if (!row) {
+          row = { y, items: [] }
+          rows.push(row)
+        }
+        row.items.push({ x, str: it.str })
+      }
+
+      rows.sort((a, b) => b.y - a.y)
+      for (const r of rows) {
+        const text = r.items
+          .sort((a, b) => a.x - b.x)
+          .map((i) => i.str)
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim()
+        if (text) lines.push({ page: p, text })
+      }
+    }
+  } finally {
+    void doc.destroy()
+  }
+
+  return lines
+}
+
+const DATE_START = /^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?\b\s*(.*)$/
+const AMOUNT = String.raw`\(?-?\$?\s?-?\d{1,3}(?:,\d{3})*\.\d{2}\)?-?(?:\s?(?:CR|DR))?`
+const TRAILING_AMOUNTS = new RegExp(String.raw`(?:^|\s)(${AMOUNT})(?:\s+(${AMOUNT}))?$`, 'i')
+const FULL_DATE = /\b(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/g
+
+function parseAmountToken(tok: string): { value: number; credit: boolean } {
+  const credit = /^\(|\)$|-|\bCR$/i.test(tok.trim())
+  const value = Number(tok.replace(/\b(CR|DR)$/i, '').replace(/[^0-9.]/g, ''))
+  return { value, credit }
+}
+
+// Statement rows usually print MM/DD without a year, so anchor them to the
+// latest full date on the statement (the closing date). December rows on a
+// January statement belong to the previous year.
+function inferClosingDate(lines: PdfLine[]): Date {
+  let best: Date | null = null
+  for (const l of lines) {
+    for (const m of l.text.matchAll(FULL_DATE)) {
+      const y = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3])
+      const d = new Date(y, Number(m[1]) - 1, Number(m[2]))
+      if (Number.isNaN(d.getTime()) || Number(m[1]) > 12) continue
+      if (!best || d > best) best = d
+    }
+  }
+  return best ?? new Date()
+}
+
+// Page headers/footers repeat on every page ("Page 2 of 4", column titles,
+// account number). Anything that isn't a dated row and shows up on 2+ pages
+// (ignoring digits) is treated as boilerplate.
+function boilerplate(lines: PdfLine[]): Set<string> {
+  const pagesByText = new Map<string, Set<number>>()
+  for (const l of lines) {
+    if (DATE_START.test(l.text)) continue
+    const k = l.text.replace(/\d/g, '#')
+    const set = pagesByText.get(k) ?? new Set<number>()
+    set.add(l.page)
+    pagesByText.set(k, set)
+  }
+  return new Set(Array.from(pagesByText).filter(([, pages]) => pages.size >= 2).map(([k]) => k))
+}
+
+export function parseStatementLines(lines: PdfLine[], source: string): PdfRow[] {
+  const closing = inferClosingDate(lines)
+  const skip = boilerplate(lines)
+  const rows: PdfRow[] = []
+
+  // section headings tell us the direction of unsigned amounts
+  let section: 'in' | 'out' | null = null
+  let pending: { date: string; description: string; extra: number } | null = null
+
+  const finish = (desc: string, amountTok: string) => {
+    if (!pending) return
+    const { value, credit } = parseAmountToken(amountTok)
+    const inflow = credit || section === 'in'
+    const description = desc.replace(/\s+/g, ' ').trim()
+    if (description && value > 0) {
+      rows.push({ date: pending.date, description, amount: inflow ? -value : value, include: true, source })
+    }
+    pending = null
+  }
+
+  for (const l of lines) {
+    const text = l.text
+    if (skip.has(text.replace(/\d/g, '#'))) continue
+
+    const dm = text.match(DATE_START)
+    const am = text.match(TRAILING_AMOUNTS)
+
+    if (dm && Number(dm[1]) >= 1 && Number(dm[1]) <= 12) {
+      const month = Number(dm[1])
+      const day = Number(dm[2])
+      let year = dm[3] ? (dm[3].length === 2 ? 2000 + Number(dm[3]) : Number(dm[3])) : closing.getFullYear()
+      if (!dm[3] && month > closing.getMonth() + 1) year -= 1
+      const d = new Date(year, month - 1, day)
+      if (Number.isNaN(d.getTime()) || d.getDate() !== day) continue
+
+      // many card statements print "trans date  post date  description"
+      let rest = dm[4].replace(/^\d{1,2}[/-]\d{1,2}(?:[/-]\d{2,4})?\s+/, '')
+      pending = { date: format(d, 'yyyy-MM-dd'), description: '', extra: 0 }
+
+      if (am) {
+        rest = rest.slice(0, rest.length - am[0].length)
+        finish(rest, am[1])
+      } else {
+        pending.description = rest
+      }
+      continue
+    }
+
+    if (pending) {
+      // a wrapped row: the description continues, and the amount shows up on a
+      // following line (possibly at the top of the next page)
+      if (am) {
+        finish(`${pending.description} ${text.slice(0, text.length - am[0].length)}`, am[1])
+      } else if (pending.extra < 3) {
+        pending.description += ` ${text}`
+        pending.extra++
+      } else {
+        pending = null
+      }
+      continue
+    }
+
+    // short heading lines only, so footers that mention "payments" don't count
+    if (!am && text.split(' ').length <= 6) {
+      if (/\b(deposits?|credits?|payments?)\b/i.test(text) && !/\b(withdrawals?|debits?|purchases?)\b/i.test(text)) section = 'in'
+      else if (/\b(withdrawals?|debits?|purchases?|charges|checks|fees)\b/i.test(text)) section = 'out'
+    }
+  }
+
+  return rows
+}
+
+export async function readPdfStatements(files: File[]): Promise<PdfRow[]> {
+  const out: PdfRow[] = []
+  for (const [fileIndex, f] of files.entries()) out.push(...parseStatementLines(await extractPdfLines(f), f.name).map((r) => ({ ...r, fileIndex })))
+  return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export function pdfRowsToTxs(rows: PdfRow[]): Tx[] {
+  return rows
+    .filter((r) => r.include && r.description.trim() && Number.isFinite(r.amount) && r.amount !== 0)
+    .map((r) => {
+      const [y, m, d] = r.date.split('-').map(Number)
+      return {
+        date: new Date(y, m - 1, d),
+        description: r.description.trim(),
+        ...withDirection(r.amount),
+        source: r.source,
+        fileIndex: r.fileIndex,
+        raw: { ...r },
+      }
+    })
+    .filter((t) => !Number.isNaN(t.date.getTime()))
+}
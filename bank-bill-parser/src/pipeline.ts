@@ -0,0 +1,84 @@
+import type { AccountType } from './accounts'
+import type { CsvFilePlan, RecurringGroup, Tx } from './lib'
+import type { DedupReport } from './dedup'
+import type { ImportRecord } from './imports'
+import type { MerchantRule } from './rules'
+
+// Parsing, de-duplication and recurring detection run in a Web Worker so large
+// histories don't freeze the page. Each job gets its own worker: cancelling
+// terminates it, which stops the work mid-loop instead of waiting for it.
+
+export type ImportJob = {
+  type: 'import'
+  csv: File[]
+  ofx: File[]
+  pdf: File[] // statements the reviewed PDF rows came from, for the ledger
+  pdfTxs: Tx[]
+  csvPlans: CsvFilePlan[] // how each CSV file is read, in csv order
+  accounts: string[] // account id assigned at upload to each file, in csv, ofx, pdf order ('' for none)
+  history: Tx[] // rows of earlier imports, to de-duplicate against
+  rules: MerchantRule[]
+  refundWindow: number // days after a charge a refund can still reverse it
+  accountTypes: Record<string, AccountType> // by account id, for matching transfers
+}
+
+// re-run de-duplication and detection over rows already imported
+export type AnalyzeJob = { type: 'analyze'; txs: Tx[]; rules: MerchantRule[]; refundWindow: number; accountTypes: Record<string, AccountType> }
+
+export type PipelineJob = ImportJob | AnalyzeJob
+
+export type PipelineProgress = { phase: 'parse' | 'detect'; done: number; total: number }
+
+export type PipelineResult = {
+  records: ImportRecord[] // new ledger records (import jobs only)
+  added: Tx[] // rows of those records, stamped with their import id
+  txs: Tx[] // all rows after de-duplication, with transfers and refunds marked
+  report: DedupReport
+}
+
+export type WorkerMessage =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'groups'; groups: RecurringGroup[] } // found since the last message, unranked; at least one per job
+  | { type: 'done'; result: PipelineResult }
+  | { type: 'error'; message: string }
+
+export function startPipeline(
+  job: PipelineJob,
+  on: { progress?: (p: PipelineProgress) => void; groups?: (chunk: RecurringGroup[]) => void },
+): { result: Promise<PipelineResult>; cancel: () => void } {
+  const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' })
+  let cancel = () => {}
+
+  const result = new Promise<PipelineResult>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
+      const msg = e.data
+      if (msg.type === 'progress') on.progress?.(msg.progress)
+      else if (msg.type === 'groups') on.groups?.(msg.groups)
+      else {
+        worker.terminate()
+        if (msg.type === 'done') resolve(msg.result)
+        else reject(new Error(msg.message))
+      }
+    }
+    worker.onerror = (e) => {
+      worker.terminate()
+      reject(new Error(e.message || 'The import worker failed.'))
+    }
+    cancel = () => {
+      worker.terminate()
+      reject(new DOMException('Import cancelled', 'AbortError'))
+    }
+  })
+
+  worker.postMessage(job)
+  return { result, cancel }
+}
+
+export function isCancelled(e: unknown) {
+  return e instanceof DOMException && e.name === 'AbortError'
+}
+
+export function progressLabel(p: PipelineProgress) {
+  const n = (x: number) => x.toLocaleString()
+  return p.phase === 'parse' ? `Parsed ${n(p.done)} of ${n(p.total)} rows` : `Checked ${n(p.done)} of ${n(p.total)} merchants`
+}
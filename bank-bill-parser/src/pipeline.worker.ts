@@ -0,0 +1,62 @@
+import { analyzeRecurring, parseCsvFiles, type Tx } from './lib'
+import { dedupeTransactions } from './dedup'
+import { parseOfxFiles } from './ofx'
+import { merchantResolver } from './rules'
+import { markTransfers } from './transfers'
+import { pairRefunds } from './refunds'
+import { hashFile, recordImport, type ImportFormat, type ImportRecord } from './imports'
+import type { ImportJob, PipelineJob, PipelineProgress, PipelineResult, WorkerMessage } from './pipeline'
+
+function post(msg: WorkerMessage) {
+  self.postMessage(msg)
+}
+
+function progress(phase: PipelineProgress['phase']) {
+  return (done: number, total: number) => post({ type: 'progress', progress: { phase, done, total } })
+}
+
+async function importFiles(job: ImportJob): Promise<{ records: ImportRecord[]; added: Tx[] }> {
+  const [fromCsv, fromOfx] = await Promise.all([
+    job.csv.length > 0 ? parseCsvFiles(job.csv, job.csvPlans, progress('parse')) : Promise.resolve([]),
+    parseOfxFiles(job.ofx),
+  ])
+
+  // One ledger record per file, so each upload can be rolled back on its own.
+  // Rows are matched to their file by position, since two banks' exports can
+  // share a name; `first` is where the format's files start in job.accounts.
+  const records: ImportRecord[] = []
+  async function record(files: File[], rows: Tx[], fmt: ImportFormat, first: number, profiles: (string | undefined)[] = []) {
+    for (const [i, f] of files.entries()) {
+      const own = rows.filter((t) => t.fileIndex === i)
+      const meta = { fileName: f.name, format: fmt, hash: await hashFile(f), profile: profiles[i], accountId: job.accounts[first + i] || undefined }
+      records.push(recordImport(own, meta))
+    }
+  }
+  await record(job.csv, fromCsv, 'csv', 0, job.csvPlans.map((p) => p.profile))
+  await record(job.ofx, fromOfx, 'ofx', job.csv.length)
+  await record(job.pdfTxs.length > 0 ? job.pdf : [], job.pdfTxs, 'pdf', job.csv.length + job.ofx.length)
+
+  return { records, added: [...fromCsv, ...fromOfx, ...job.pdfTxs] }
+}
+
+async function runJob(job: PipelineJob): Promise<PipelineResult> {
+  const { records, added } = job.type === 'import' ? await importFiles(job) : { records: [], added: [] }
+  const all = job.type === 'import' ? [...job.history, ...added] : job.txs
+
+  // overlapping exports repeat rows; merge them before the cadence math sees them
+  const deduped = dedupeTransactions(all)
+  const merchantOf = merchantResolver(job.rules)
+  const txs = pairRefunds(markTransfers(deduped.txs, { accountTypes: job.accountTypes }), { windowDays: job.refundWindow, merchantOf })
+  const report = deduped.report
+  // cards show up as detection finds them; the page ranks them as they arrive
+  analyzeRecurring(txs, { onProgress: progress('detect'), onGroups: (groups) => post({ type: 'groups', groups }), merchantOf })
+
+  return { records, added, txs, report }
+}
+
+self.onmessage = (e: MessageEvent<PipelineJob>) => {
+  runJob(e.data).then(
+    (result) => post({ type: 'done', result }),
+    (err) => post({ type: 'error', message: err instanceof Error ? err.message : String(err) }),
+  )
+}
@@ -0,0 +1,57 @@
+import { format } from 'date-fns'
+import { cadenceDays, type Cadence } from './cadence'
+
+// Step changes in a stable recurring charge: Netflix going from 15.49 to
+// 17.99 shows up as a run of one price followed by a run of another. Charges
+// that wander (utilities, groceries) have no clean runs and report nothing.
+
+export type PriceChange = {
+  from: number // old price
+  to: number // new price
+  date: string // yyyy-MM-dd of the first charge at the new price
+  annualImpact: number // (to - from) × charges per year
+  confirmed: boolean // false while only the latest charge is at the new price
+}
+
+// a charge belongs to the current price when within 1% (at least 5¢)
+function samePrice(a: number, b: number) {
+  return Math.abs(a - b) <= Math.max(0.05, Math.abs(b) * 0.01)
+}
+
+// more steps than this means the amount just varies
+const MAX_STEPS = 3
+
+export function detectPriceChanges(charges: { date: Date; amount: number }[], cadence: Cadence): PriceChange[] {
+  const days = cadenceDays(cadence)
+  if (!days || charges.length < 3) return []
+  const perYear = 365.25 / days
+
+  // runs of consecutive charges at the same price; one-off odd charges
+  // (a prorated first month, a refund adjustment) are dropped
+  const runs: { price: number; start: Date; count: number }[] = []
+  for (const c of charges) {
+    const last = runs[runs.length - 1]
+    if (last && samePrice(c.amount, last.price)) last.count++
+    else runs.push({ price: c.amount, start: c.date, count: 1 })
+  }
+  const latest = runs[runs.length - 1]
+  const steady = runs.filter((r) => r.count >= 2 || r === latest)
+  if (steady.length < 2 || steady.length - 1 > MAX_STEPS) return []
+  // too many stray charges between the runs: not a stable charge
+  if (runs.length - steady.length > Math.max(1, charges.length / 6)) return []
+
+  const out: PriceChange[] = []
+  for (let i = 1; i < steady.length; i++) {
+    const prev = steady[i - 1]
+    const cur = steady[i]
+    if (samePrice(cur.price, prev.price)) continue
+    out.push({
+      from: prev.price,
+      to: cur.price,
+      date: format(cur.start, 'yyyy-MM-dd'),
+      annualImpact: Math.round((cur.price - prev.price) * perYear * 100) / 100,
+      confirmed: cur.count >= 2,
+    })
+  }
+  return out
+}
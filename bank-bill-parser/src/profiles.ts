@@ -0,0 +1,229 @@
+import type { CsvSettings } from './csv'
+import type { ColumnMap, CsvFilePlan, ExpenseSign } from './lib'
+import type { DateOrder, DecimalMark } from './locale'
+
+// An import profile remembers how to read one institution's CSV export:
+// which columns hold what, how expenses are signed, the date format and how
+// many preamble lines sit above the real header row. A file is matched to a
+// profile when its header row has exactly the profile's columns.
+
+export type ImportProfile = {
+  id: string
+  name: string
+  account: string // label for the account these files come from
+  headers: string[] // header signature (normalized column names)
+  columnMap: ColumnMap
+  expenseSign: ExpenseSign
+  dateFormat: string // date-fns pattern; '' = auto-detect
+  skipRows: number // non-empty preamble rows above the header row
+  dateOrder?: DateOrder // unset = infer per file
+  decimalMark?: DecimalMark // unset = infer per file
+  builtIn?: boolean
+}
+
+export function normalizeHeader(h: string) {
+  return h
+    .replace(/^\uFEFF/, '')
+    .replace(/^"|"$/g, '')
+    .trim()
+    .toLowerCase()
+}
+
+export function headerSignature(headers: string[]): string[] {
+  return headers.map(normalizeHeader).filter(Boolean)
+}
+
+function sameColumns(a: string[], b: string[]) {
+  const sa = new Set(a)
+  const sb = new Set(b)
+  return sa.size === sb.size && [...sa].every((x) => sb.has(x))
+}
+
+// two files' header rows name the same columns, in any order or case
+export function sameHeaders(a: string[], b: string[]) {
+  return sameColumns(headerSignature(a), headerSignature(b))
+}
+
+function builtIn(p: Omit<ImportProfile, 'builtIn' | 'account' | 'dateFormat' | 'skipRows' | 'headers'> & { headers: string[]; skipRows?: number; dateFormat?: string }): ImportProfile {
+  return { account: '', dateFormat: '', skipRows: 0, ...p, headers: headerSignature(p.headers), builtIn: true }
+}
+
+// Header layouts of common US bank / card CSV exports. Banks change these
+// occasionally; a user profile with the same id overrides the built-in one.
+export const BUILTIN_PROFILES: ImportProfile[] = [
+  builtIn({
+    id: 'usbank',
+    name: 'U.S. Bank',
+    headers: ['Date', 'Transaction', 'Name', 'Memo', 'Amount'],
+    columnMap: { date: 'Date', description: 'Name', amount: 'Amount', type: 'Transaction' },
+    expenseSign: 'negative',
+  }),
+  builtIn({
+    id: 'chase-checking',
+    name: 'Chase (checking/savings)',
+    headers: ['Details', 'Posting Date', 'Description', 'Amount', 'Type', 'Balance', 'Check or Slip #'],
+    columnMap: { date: 'Posting Date', description: 'Description', amount: 'Amount', type: 'Details' },
+    expenseSign: 'negative',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'chase-card',
+    name: 'Chase (credit card)',
+    headers: ['Transaction Date', 'Post Date', 'Description', 'Category', 'Type', 'Amount', 'Memo'],
+    columnMap: { date: 'Transaction Date', description: 'Description', amount: 'Amount', type: 'Type' },
+    expenseSign: 'negative',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'bofa-checking',
+    name: 'Bank of America (checking/savings)',
+    headers: ['Date', 'Description', 'Amount', 'Running Bal.'],
+    columnMap: { date: 'Date', description: 'Description', amount: 'Amount' },
+    expenseSign: 'negative',
+    dateFormat: 'MM/dd/yyyy',
+    skipRows: 5,
+  }),
+  builtIn({
+    id: 'bofa-card',
+    name: 'Bank of America (credit card)',
+    headers: ['Posted Date', 'Reference Number', 'Payee', 'Address', 'Amount'],
+    columnMap: { date: 'Posted Date', description: 'Payee', amount: 'Amount' },
+    expenseSign: 'negative',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'capitalone-card',
+    name: 'Capital One (credit card)',
+    headers: ['Transaction Date', 'Posted Date', 'Card No.', 'Description', 'Category', 'Debit', 'Credit'],
+    columnMap: { date: 'Transaction Date', description: 'Description', amount: '', debit: 'Debit', credit: 'Credit' },
+    expenseSign: 'auto',
+  }),
+  builtIn({
+    id: 'capitalone-360',
+    name: 'Capital One 360 (checking/savings)',
+    headers: ['Account Number', 'Transaction Description', 'Transaction Date', 'Transaction Type', 'Transaction Amount', 'Balance'],
+    columnMap: { date: 'Transaction Date', description: 'Transaction Description', amount: 'Transaction Amount', type: 'Transaction Type' },
+    expenseSign: 'positive',
+    dateFormat: 'MM/dd/yy',
+  }),
+  builtIn({
+    id: 'amex',
+    name: 'American Express',
+    headers: ['Date', 'Description', 'Card Member', 'Account #', 'Amount'],
+    columnMap: { date: 'Date', description: 'Description', amount: 'Amount' },
+    expenseSign: 'positive',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'amex-extended',
+    name: 'American Express (extended details)',
+    headers: [
+      'Date',
+      'Description',
+      'Amount',
+      'Extended Details',
+      'Appears On Your Statement As',
+      'Address',
+      'City/State',
+      'Zip Code',
+      'Country',
+      'Reference',
+      'Category',
+    ],
+    columnMap: { date: 'Date', description: 'Description', amount: 'Amount' },
+    expenseSign: 'positive',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'discover',
+    name: 'Discover',
+    headers: ['Trans. Date', 'Post Date', 'Description', 'Amount', 'Category'],
+    columnMap: { date: 'Trans. Date', description: 'Description', amount: 'Amount' },
+    expenseSign: 'positive',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'citi',
+    name: 'Citi',
+    headers: ['Status', 'Date', 'Description', 'Debit', 'Credit'],
+    columnMap: { date: 'Date', description: 'Description', amount: '', debit: 'Debit', credit: 'Credit' },
+    expenseSign: 'auto',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'citi-member',
+    name: 'Citi (with member name)',
+    headers: ['Status', 'Date', 'Description', 'Debit', 'Credit', 'Member Name'],
+    columnMap: { date: 'Date', description: 'Description', amount: '', debit: 'Debit', credit: 'Credit' },
+    expenseSign: 'auto',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'apple-card',
+    name: 'Apple Card',
+    headers: ['Transaction Date', 'Clearing Date', 'Description', 'Merchant', 'Category', 'Type', 'Amount (USD)', 'Purchased By'],
+    columnMap: { date: 'Transaction Date', description: 'Merchant', amount: 'Amount (USD)', type: 'Type' },
+    expenseSign: 'positive',
+    dateFormat: 'MM/dd/yyyy',
+  }),
+  builtIn({
+    id: 'ally',
+    name: 'Ally Bank',
+    headers: ['Date', 'Time', 'Amount', 'Type', 'Description'],
+    columnMap: { date: 'Date', description: 'Description', amount: 'Amount', type: 'Type' },
+    expenseSign: 'negative',
+    dateFormat: 'yyyy-MM-dd',
+  }),
+]
+
+// User profiles win over built-ins with the same id (an edited built-in is
+// saved as a user copy).
+export function allProfiles(user: ImportProfile[]): ImportProfile[] {
+  const ids = new Set(user.map((p) => p.id))
+  return [...user, ...BUILTIN_PROFILES.filter((p) => !ids.has(p.id))]
+}
+
+// Look for a profile whose header signature matches one of the first lines of
+// the file. Returns the line index where the header was found, which is the
+// actual number of preamble rows for this file.
+export function matchProfile(lines: string[][], profiles: ImportProfile[]): { profile: ImportProfile; headerRow: number } | null {
+  for (let i = 0; i < lines.length; i++) {
+    const sig = headerSignature(lines[i])
+    if (sig.length === 0) continue
+    const profile = profiles.find((p) => sameColumns(p.headers, sig))
+    if (profile) return { profile, headerRow: i }
+  }
+  return null
+}
+
+// Profile column names are stored normalized-insensitively; point them back at
+// the file's actual header strings (case, stray spaces, quotes).
+export function resolveColumnMap(map: ColumnMap, headers: string[]): ColumnMap {
+  const find = (col?: string) => (col ? (headers.find((h) => normalizeHeader(h) === normalizeHeader(col)) ?? col) : col)
+  return {
+    date: find(map.date) ?? '',
+    description: find(map.description) ?? '',
+    amount: find(map.amount) ?? '',
+    debit: find(map.debit),
+    credit: find(map.credit),
+    type: find(map.type),
+  }
+}
+
+// How a file a profile matched is read: the profile's columns pointed at the
+// file's own headers, with the settings the file was sniffed with
+export function profilePlan(p: ImportProfile, headers: string[], csv: CsvSettings): CsvFilePlan {
+  return {
+    map: resolveColumnMap(p.columnMap, headers),
+    expenseSign: p.expenseSign,
+    dateFormat: p.dateFormat,
+    dateOrder: p.dateOrder,
+    decimalMark: p.decimalMark,
+    csv,
+    profile: p.name,
+  }
+}
+
+export function newProfileId() {
+  return `p_${crypto.randomUUID()}`
+}
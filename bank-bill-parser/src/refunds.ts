@@ -0,0 +1,92 @@
+import { differenceInCalendarDays } from 'date-fns'
+import { defaultMerchantOf, type MerchantOf, type Tx } from './lib'
+
+// Refunds and chargebacks that reverse an earlier charge: a deposit from the
+// same merchant for the charge's amount or less, within a window after it.
+// Each refund is paired with one charge; the charge then counts at what's
+// left after the refund (nothing, for a full refund) and the refund itself
+// isn't counted as income.
+
+export type RefundPair = { charge: Tx; refund: Tx }
+
+export const DEFAULT_REFUND_WINDOW_DAYS = 60
+
+// words banks add to the refund's description ("AMAZON REFUND", "RETURN - TARGET")
+const REFUND_WORDS = /\b(refund|refunded|return|returned|reversal|reversed|credit|chargeback|adjustment|adj)\b/gi
+
+function refundKey(key: string) {
+  return key.replace(REFUND_WORDS, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function saysRefund(description: string) {
+  return description.search(REFUND_WORDS) >= 0
+}
+
+// What a row adds to spending (positive) or income (negative): transfers and
+// paired refunds add nothing, a refunded charge only what wasn't given back
+export function netAmount(t: Tx): number {
+  if (t.transferId) return 0
+  if (t.direction === 'in') return t.refundId ? 0 : -t.amount
+  return Math.max(0, t.amount - (t.refunded ?? 0))
+}
+
+// Pair each refund with the latest unpaired charge from the same merchant
+// that is at least as large, preferring an exact amount. A partial refund
+// has to say so in its description; otherwise money back from a merchant
+// you also pay (a Venmo cash-out) would eat into its charges. Rows come back as
+// copies with refundId on both sides and refunded on the charge; earlier
+// markers are cleared so a re-run starts fresh.
+export function pairRefunds(txs: Tx[], opts?: { windowDays?: number; merchantOf?: MerchantOf }): Tx[] {
+  const windowDays = opts?.windowDays ?? DEFAULT_REFUND_WINDOW_DAYS
+  const merchantOf = opts?.merchantOf ?? defaultMerchantOf
+  const out: Tx[] = txs.map((t) => ({ ...t, refundId: undefined, refunded: undefined }))
+
+  const charges = new Map<string, Tx[]>()
+  const refunds: { t: Tx; key: string }[] = []
+  for (const t of out) {
+    if (t.transferId) continue
+    const key = refundKey(merchantOf(t.description).key)
+    if (!key) continue
+    if (t.direction === 'in') {
+      refunds.push({ t, key })
+      continue
+    }
+    const arr = charges.get(key) ?? []
+    arr.push(t)
+    charges.set(key, arr)
+  }
+
+  let n = 0
+  refunds.sort((a, b) => a.t.date.getTime() - b.t.date.getTime())
+  for (const { t, key } of refunds) {
+    const candidates = (charges.get(key) ?? []).filter((c) => {
+      const days = differenceInCalendarDays(t.date, c.date)
+      return !c.refundId && days >= 0 && days <= windowDays && c.amount >= t.amount - 0.005
+    })
+    const exact = candidates.filter((c) => Math.abs(c.amount - t.amount) < 0.005)
+    const pool = exact.length > 0 ? exact : saysRefund(t.description) ? candidates : []
+    if (pool.length === 0) continue
+    const charge = pool.reduce((best, c) => (c.date > best.date ? c : best))
+
+    const id = `refund-${++n}`
+    charge.refundId = id
+    charge.refunded = t.amount
+    t.refundId = id
+  }
+  return out
+}
+
+// Paired charges and refunds, newest refund first, for auditing
+export function refundPairs(txs: Tx[]): RefundPair[] {
+  const byId = new Map<string, Partial<RefundPair>>()
+  for (const t of txs) {
+    if (!t.refundId) continue
+    const p = byId.get(t.refundId) ?? {}
+    if (t.direction === 'in') p.refund = t
+    else p.charge = t
+    byId.set(t.refundId, p)
+  }
+  return Array.from(byId.values())
+    .filter((p): p is RefundPair => Boolean(p.charge && p.refund))
+    .sort((a, b) => b.refund.date.getTime() - a.refund.date.getTime())
+}
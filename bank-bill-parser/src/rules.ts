@@ -0,0 +1,102 @@
+import { defaultMerchantOf, type MerchantOf, type Tx } from './lib'
+
+// Merchant rules sit on top of normalizeMerchant, which only strips digits and
+// a fixed word list. A rule matches a raw description and either merges it
+// into a canonical merchant ("AMZN Mktp US*2K4" and "Amazon.com" → Amazon) or
+// splits it out, so descriptions that normalize to the same words ("PAYMENT
+// 1234", "PAYMENT 5678") stay in groups of their own. The first matching rule
+// wins; descriptions no rule matches are grouped as before.
+
+export type RuleMatch = 'exact' | 'contains' | 'regex'
+
+export type MerchantRule = {
+  id: string
+  match: RuleMatch
+  pattern: string
+  action: 'merge' | 'split'
+  merchant: string // canonical name; for splits an optional prefix
+}
+
+function slug(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+// null when the rule can't be used (empty pattern, invalid regex); shared with
+// categorization rules, which match descriptions the same way
+export function descriptionMatcher(rule: Pick<MerchantRule, 'match' | 'pattern'>): ((description: string) => boolean) | null {
+  const p = rule.pattern.trim()
+  if (!p) return null
+  if (rule.match === 'regex') {
+    try {
+      const re = new RegExp(p, 'i')
+      return (d) => re.test(d)
+    } catch {
+      return null
+    }
+  }
+  const needle = p.toLowerCase()
+  if (rule.match === 'exact') return (d) => d.trim().toLowerCase() === needle
+  return (d) => d.toLowerCase().includes(needle)
+}
+
+export function ruleError(rule: Pick<MerchantRule, 'match' | 'pattern'>): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is empty.'
+  if (rule.match !== 'regex') return null
+  try {
+    new RegExp(rule.pattern, 'i')
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : 'Invalid regular expression.'
+  }
+}
+
+export function merchantResolver(rules: MerchantRule[]): MerchantOf {
+  const compiled = rules.flatMap((rule) => {
+    const test = descriptionMatcher(rule)
+    return test ? [{ rule, test }] : []
+  })
+  if (compiled.length === 0) return defaultMerchantOf
+
+  const cache = new Map<string, { key: string; merchant: string }>()
+  return (description) => {
+    const hit = cache.get(description)
+    if (hit) return hit
+
+    let out = defaultMerchantOf(description)
+    const r = compiled.find((c) => c.test(description))?.rule
+    if (r?.action === 'merge' && slug(r.merchant)) {
+      out = { key: slug(r.merchant), merchant: r.merchant.trim() }
+    } else if (r?.action === 'split') {
+      // digits are kept, so each distinct description is its own group
+      const own = slug(description)
+      const prefix = r.merchant.trim()
+      out = { key: `split:${slug(prefix)}:${own}`, merchant: prefix ? `${prefix} (${description.trim()})` : description.trim() }
+    }
+    cache.set(description, out)
+    return out
+  }
+}
+
+// When rules change, carry decisions/categories from each description's old
+// group key to its new one (without overwriting a choice the new key has).
+export function rekeyByRules<T>(map: Record<string, T>, txs: Tx[], before: MerchantRule[], after: MerchantRule[]): Record<string, T> {
+  const from = merchantResolver(before)
+  const to = merchantResolver(after)
+  const next = { ...map }
+  const seen = new Set<string>()
+  for (const t of txs) {
+    if (seen.has(t.description)) continue
+    seen.add(t.description)
+    const oldKey = from(t.description).key
+    const newKey = to(t.description).key
+    if (oldKey !== newKey && oldKey in map && !(newKey in next)) next[newKey] = map[oldKey]
+  }
+  return next
+}
+
+export function newRuleId() {
+  return `r_${crypto.randomUUID()}`
+}
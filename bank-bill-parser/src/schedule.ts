@@ -0,0 +1,130 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, getDaysInMonth, isWeekend, parseISO, startOfMonth } from 'date-fns'
+import type { Cadence } from './cadence'
+import type { RecurringGroup } from './lib'
+
+// Expected charge dates for a recurring group over any date range. Week-based
+// cadences step from the last charge seen; month-based ones land on the
+// anchor days of every Nth month (a 31st becomes the last day of shorter
+// months). Dates can optionally move off weekends and US bank holidays, the
+// way a bank posts a payment due on a Sunday.
+
+export type ShiftRule = 'none' | 'next' | 'previous'
+
+export const SHIFT_LABELS: Record<ShiftRule, string> = {
+  none: 'As scheduled',
+  next: 'Next business day',
+  previous: 'Previous business day',
+}
+
+const WEEK_STEPS: Partial<Record<Cadence, number>> = { weekly: 7, biweekly: 14, every4weeks: 28 }
+const MONTH_STEPS: Partial<Record<Cadence, number>> = { semimonthly: 1, monthly: 1, quarterly: 3, semiannual: 6, annual: 12 }
+
+function nthWeekday(year: number, month: number, weekday: number, n: number) {
+  const first = new Date(year, month, 1)
+  return new Date(year, month, 1 + ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7)
+}
+
+function lastWeekday(year: number, month: number, weekday: number) {
+  const last = new Date(year, month + 1, 0)
+  return new Date(year, month, last.getDate() - ((last.getDay() - weekday + 7) % 7))
+}
+
+const holidayCache = new Map<number, Set<string>>()
+
+// Federal Reserve holidays; one falling on a Sunday is observed on Monday
+function bankHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+
+  const days = [
+    new Date(year, 0, 1),
+    nthWeekday(year, 0, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3), // Washington's Birthday
+    lastWeekday(year, 4, 1), // Memorial Day
+    new Date(year, 5, 19),
+    new Date(year, 6, 4),
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 9, 1, 2), // Columbus Day
+    new Date(year, 10, 11),
+    nthWeekday(year, 10, 4, 4), // Thanksgiving
+    new Date(year, 11, 25),
+  ].map((d) => (d.getDay() === 0 ? addDays(d, 1) : d))
+
+  const set = new Set(days.map((d) => d.toDateString()))
+  holidayCache.set(year, set)
+  return set
+}
+
+export function isBankHoliday(d: Date) {
+  return bankHolidays(d.getFullYear()).has(d.toDateString())
+}
+
+export function isBusinessDay(d: Date) {
+  return !isWeekend(d) && !isBankHoliday(d)
+}
+
+export function shiftDate(d: Date, rule: ShiftRule): Date {
+  if (rule === 'none') return d
+  let out = d
+  while (!isBusinessDay(out)) out = addDays(out, rule === 'next' ? 1 : -1)
+  return out
+}
+
+export function lastSeen(g: RecurringGroup): Date | null {
+  const d = g.samples[0]?.date
+  return d ? parseISO(d) : null
+}
+
+function dayIn(year: number, month: number, day: number) {
+  return new Date(year, month, Math.min(day, getDaysInMonth(new Date(year, month, 1))))
+}
+
+// Scheduled (unshifted) dates within [from, to]
+function scheduled(g: RecurringGroup, from: Date, to: Date): Date[] {
+  const last = lastSeen(g)
+  if (!last) return []
+
+  const week = WEEK_STEPS[g.cadence]
+  if (week) {
+    // first step on or after `from`, counting from the last charge in either direction
+    const first = addDays(last, Math.ceil(differenceInCalendarDays(from, last) / week) * week)
+    const out: Date[] = []
+    for (let d = first; d <= to; d = addDays(d, week)) out.push(d)
+    return out
+  }
+
+  const step = MONTH_STEPS[g.cadence]
+  if (!step) return []
+  // groups saved before anchors existed only have usualDayOfMonth
+  const days = g.anchor?.daysOfMonth ?? [g.usualDayOfMonth ?? last.getDate()]
+  const months = g.anchor?.monthsOfYear
+
+  const out: Date[] = []
+  for (let m = startOfMonth(from); m <= to; m = addMonths(m, 1)) {
+    const inCycle = months?.length
+      ? months.includes(m.getMonth() + 1)
+      : ((differenceInCalendarMonths(m, last) % step) + step) % step === 0
+    if (!inCycle) continue
+    for (const day of days) {
+      const d = dayIn(m.getFullYear(), m.getMonth(), day)
+      if (d >= from && d <= to) out.push(d)
+    }
+  }
+  return out
+}
+
+export function expectedDates(g: RecurringGroup, from: Date, to: Date, opts?: { shift?: ShiftRule }): Date[] {
+  const shift = opts?.shift ?? 'none'
+  if (shift === 'none') return scheduled(g, from, to)
+  // a shift can carry a date across the range edge, so look a little wider
+  return scheduled(g, addDays(from, -7), addDays(to, 7))
+    .map((d) => shiftDate(d, shift))
+    .filter((d) => d >= from && d <= to)
+}
+
+// Expected dates of many groups over a range, in date order
+export function scheduleRange<G extends RecurringGroup>(groups: G[], from: Date, to: Date, opts?: { shift?: ShiftRule }): { date: Date; group: G }[] {
+  return groups
+    .flatMap((group) => expectedDates(group, from, to, opts).map((date) => ({ date, group })))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
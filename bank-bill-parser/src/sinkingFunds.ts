@@ -0,0 +1,91 @@
+import { addDays, differenceInCalendarMonths, format, startOfMonth } from 'date-fns'
+import { cadenceDays, type Cadence } from './cadence'
+import type { RecurringGroup } from './lib'
+import { expectedDates, lastSeen } from './schedule'
+
+// Saving ahead for charges that come less often than monthly (car insurance
+// twice a year, Amazon Prime once). Each one gets a fund: the typical amount
+// is the target, due on the next expected date, and the monthly set-aside is
+// what's still missing spread over the months left. The balance is whatever
+// was put in since the last charge posted, so it resets by itself once the
+// bill is paid.
+
+export type Contribution = { date: string; amount: number } // yyyy-MM-dd; negative to correct the balance
+
+export type FundStatus = 'funded' | 'on-track' | 'behind'
+
+export const FUND_STATUS_LABELS: Record<FundStatus, string> = {
+  funded: 'Funded',
+  'on-track': 'On track',
+  behind: 'Behind',
+}
+
+export type SinkingFund = {
+  group: RecurringGroup
+  nextDue: Date
+  target: number
+  saved: number // contributed since the last charge
+  monthsLeft: number // counting the current month
+  monthlySetAside: number
+  expectedSaved: number // where the balance should be by now to stay on schedule
+  status: FundStatus
+}
+
+const MONTH_DAYS = 365.25 / 12
+
+// quarterly, every 6 months, yearly
+export function isSinkingCadence(c: Cadence) {
+  return (cadenceDays(c) ?? 0) > MONTH_DAYS
+}
+
+export function fundBalance(g: RecurringGroup, contributions: Contribution[] = []): number {
+  const last = g.samples[0]?.date ?? ''
+  return contributions.filter((c) => c.date > last).reduce((sum, c) => sum + c.amount, 0)
+}
+
+// The fund for one group as of a month, or null when it isn't a sinking-fund
+// cadence or has no upcoming date
+export function sinkingFund(g: RecurringGroup, contributions: Contribution[] | undefined, month: Date): SinkingFund | null {
+  const period = cadenceDays(g.cadence)
+  const last = lastSeen(g)
+  if (!period || !last || !isSinkingCadence(g.cadence)) return null
+
+  // the next date from the month shown, or from the last charge if it's later
+  const from = startOfMonth(month) > last ? startOfMonth(month) : addDays(last, 1)
+  const nextDue = expectedDates(g, from, addDays(from, period * 2))[0]
+  if (!nextDue) return null
+
+  const target = g.typicalAmount
+  const saved = fundBalance(g, contributions)
+  const monthsLeft = Math.max(1, differenceInCalendarMonths(nextDue, month) + 1)
+  const cycleMonths = Math.max(1, Math.round(period / MONTH_DAYS))
+  const expectedSaved = (target * Math.max(0, cycleMonths - monthsLeft)) / cycleMonths
+  const status: FundStatus = saved >= target - 0.005 ? 'funded' : saved + 0.5 >= expectedSaved ? 'on-track' : 'behind'
+
+  return {
+    group: g,
+    nextDue,
+    target,
+    saved,
+    monthsLeft,
+    monthlySetAside: Math.round((Math.max(0, target - saved) / monthsLeft) * 100) / 100,
+    expectedSaved,
+    status,
+  }
+}
+
+// Funds for every group that needs one, soonest due first
+export function sinkingFunds(groups: RecurringGroup[], store: Record<string, Contribution[]>, month: Date): SinkingFund[] {
+  return groups
+    .flatMap((g) => sinkingFund(g, store[g.merchantKey], month) ?? [])
+    .sort((a, b) => a.nextDue.getTime() - b.nextDue.getTime())
+}
+
+export function contribution(amount: number, on = new Date()): Contribution {
+  return { date: format(on, 'yyyy-MM-dd'), amount: Math.round(amount * 100) / 100 }
+}
+
+// the amount that brings the balance to `balance` today
+export function balanceCorrection(g: RecurringGroup, contributions: Contribution[] | undefined, balance: number): Contribution {
+  return contribution(balance - fundBalance(g, contributions))
+}
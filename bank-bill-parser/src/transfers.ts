@@ -0,0 +1,112 @@
+import { differenceInCalendarDays } from 'date-fns'
+import type { AccountType } from './accounts'
+import type { Tx } from './lib'
+
+// Money moving between your own accounts: the checking side of a credit card
+// payment or a savings transfer, with the matching deposit in the other
+// account's export. Once both files are uploaded the card's own charges
+// already show the spending, so a matched pair is marked as a transfer and
+// left out of recurring detection and the budget. A same-amount match with
+// nothing in either description to show it's a transfer can just as well be
+// a purchase and an unrelated deposit, so it's only suggested and still counts
+// unless both sides are your own accounts and one is a card or savings account.
+
+export type TransferPair = { out: Tx; in: Tx }
+
+// descriptions banks use for payments and transfers between accounts
+const TRANSFER_PATTERN =
+  /\b(auto ?pay|autopayment|online (transfer|payment|pmt)|transfer|xfer|payment,? (- )?thank you|thank you for your payment|mobile payment|e-?payment|epay|card ?pmt|crcardpmt|ach pmt)\b/i
+
+// how far apart the two sides can post (card payments often land a day or two later)
+const WINDOW_DAYS = 4
+// without a telling description only an unambiguous, close match is suggested
+const UNNAMED_WINDOW_DAYS = 2
+
+export function isTransferLike(description: string) {
+  return TRANSFER_PATTERN.test(description)
+}
+
+// both sides must come from different accounts (or, without accounts, different uploads)
+function fileOf(t: Tx) {
+  return t.accountId ?? t.importId ?? t.source ?? ''
+}
+
+// an unnamed match between two of your accounts where one is a card or savings
+// account: a card payment or a savings transfer
+function ownTransfer(a: Tx, b: Tx, types: Record<string, AccountType>) {
+  const sides = [a, b].map((t) => (t.accountId ? types[t.accountId] : undefined))
+  return sides.every(Boolean) && sides.some((type) => type === 'credit' || type === 'savings')
+}
+
+function cents(t: Tx) {
+  return Math.round(t.amount * 100)
+}
+
+// Pair outflows with inflows of the same amount in another account. Rows
+// come back as copies, with transferId set on both sides of each pair and
+// suggestedTransferId on both sides of each unnamed match (both cleared
+// everywhere else, so a re-run after removing a file starts fresh).
+// accountTypes: type of each account id, for confirming unnamed matches.
+export function markTransfers(txs: Tx[], opts?: { accountTypes?: Record<string, AccountType> }): Tx[] {
+  const out: Tx[] = txs.map((t) => ({ ...t, transferId: undefined, suggestedTransferId: undefined }))
+
+  const inflows = new Map<number, number[]>()
+  out.forEach((t, i) => {
+    if (t.direction !== 'in') return
+    const arr = inflows.get(cents(t)) ?? []
+    arr.push(i)
+    inflows.set(cents(t), arr)
+  })
+
+  const candidates: { o: number; i: number; days: number; named: boolean }[] = []
+  const outCount = new Map<number, number>()
+  const inCount = new Map<number, number>()
+  out.forEach((t, o) => {
+    if (t.direction !== 'out') return
+    for (const i of inflows.get(cents(t)) ?? []) {
+      const d = out[i]
+      if (fileOf(d) === fileOf(t)) continue
+      const days = Math.abs(differenceInCalendarDays(d.date, t.date))
+      if (days > WINDOW_DAYS) continue
+      candidates.push({ o, i, days, named: isTransferLike(t.description) || isTransferLike(d.description) })
+      outCount.set(o, (outCount.get(o) ?? 0) + 1)
+      inCount.set(i, (inCount.get(i) ?? 0) + 1)
+    }
+  })
+
+  // named matches first, then the closest dates
+  candidates.sort((a, b) => Number(b.named) - Number(a.named) || a.days - b.days)
+  let n = 0
+  for (const c of candidates) {
+    const [o, i] = [out[c.o], out[c.i]]
+    if (o.transferId || i.transferId || o.suggestedTransferId || i.suggestedTransferId) continue
+    if (!c.named && (c.days > UNNAMED_WINDOW_DAYS || outCount.get(c.o)! > 1 || inCount.get(c.i)! > 1)) continue
+    const key = c.named || ownTransfer(o, i, opts?.accountTypes ?? {}) ? 'transferId' : 'suggestedTransferId'
+    o[key] = i[key] = `xfer-${++n}`
+  }
+  return out
+}
+
+function pairsBy(txs: Tx[], idOf: (t: Tx) => string | undefined): TransferPair[] {
+  const byId = new Map<string, Partial<TransferPair>>()
+  for (const t of txs) {
+    const id = idOf(t)
+    if (!id) continue
+    const p = byId.get(id) ?? {}
+    p[t.direction] = t
+    byId.set(id, p)
+  }
+  return Array.from(byId.values())
+    .filter((p): p is TransferPair => Boolean(p.out && p.in))
+    .sort((a, b) => b.out.date.getTime() - a.out.date.getTime())
+}
+
+// Matched pairs, newest first, for showing what was set aside
+export function transferPairs(txs: Tx[]): TransferPair[] {
+  return pairsBy(txs, (t) => t.transferId)
+}
+
+// Unnamed matches, newest first; both sides still count
+export function suggestedTransferPairs(txs: Tx[]): TransferPair[] {
+  return pairsBy(txs, (t) => t.suggestedTransferId)
+}